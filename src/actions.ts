@@ -0,0 +1,282 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import * as yaml from 'js-yaml';
+import { fetchRepoLabels } from './commands';
+import { PromptSection, SECTION_PRIORITY } from './prompt';
+
+/**
+ * GitHub operations the agent can request in an `openclaw-actions` block
+ */
+export type IssueActionType = 'add_labels' | 'remove_labels' | 'assign' | 'set_milestone' | 'close' | 'lock' | 'link';
+
+type LockReason = 'off-topic' | 'too heated' | 'resolved' | 'spam';
+
+export type IssueAction =
+  | { type: 'add_labels'; labels: string[] }
+  | { type: 'remove_labels'; labels: string[] }
+  | { type: 'assign'; users: string[] }
+  // A milestone title or number; null clears it
+  | { type: 'set_milestone'; milestone: string | number | null }
+  | { type: 'close'; reason: 'completed' | 'not_planned' | 'duplicate'; duplicateOf?: number }
+  | { type: 'lock'; reason?: LockReason }
+  // Cross-reference another issue/PR from this one
+  | { type: 'link'; issue: number; note?: string };
+
+export interface ParsedActions {
+  // The response without its action blocks
+  text: string;
+  actions: IssueAction[];
+  errors: string[];
+}
+
+export interface ActionResult {
+  action: IssueAction;
+  status: 'done' | 'refused' | 'failed';
+  message: string;
+}
+
+// How each operation is described to the agent
+const ACTION_USAGE: Record<IssueActionType, string> = {
+  add_labels: '{"type": "add_labels", "labels": ["bug"]} (existing labels only)',
+  remove_labels: '{"type": "remove_labels", "labels": ["needs-triage"]}',
+  assign: '{"type": "assign", "users": ["octocat"]}',
+  set_milestone: '{"type": "set_milestone", "milestone": "v1.2"} (title or number; null clears it)',
+  close: '{"type": "close", "reason": "completed" | "not_planned" | "duplicate", "duplicate_of": 12}',
+  lock: '{"type": "lock", "reason": "off-topic" | "too heated" | "resolved" | "spam"}',
+  link: '{"type": "link", "issue": 34, "note": "same root cause"}',
+};
+
+export const ISSUE_ACTION_TYPES = Object.keys(ACTION_USAGE) as IssueActionType[];
+
+const LOCK_REASONS: LockReason[] = ['off-topic', 'too heated', 'resolved', 'spam'];
+const CLOSE_REASONS = ['completed', 'not_planned', 'duplicate'];
+const MAX_ACTIONS = 10;
+
+const ACTIONS_BLOCK = /^[ \t]*```openclaw-actions[ \t]*\n([\s\S]*?)^[ \t]*```[ \t]*$/gm;
+
+/**
+ * Instructions describing the action protocol, limited to the
+ * operations the repository allows
+ */
+export function buildActionsSection(allow: IssueActionType[]): PromptSection {
+  const usage = allow.map(type => `- ${ACTION_USAGE[type]}`).join('\n');
+  return {
+    id: 'actions',
+    content: `## Repository Actions
+
+Besides answering, you can ask for these operations on this issue/PR:
+
+${usage}
+
+Put them in a fenced block at the end of your reply, as a JSON array:
+
+\`\`\`\`
+\`\`\`openclaw-actions
+[{"type": "add_labels", "labels": ["bug"]}]
+\`\`\`
+\`\`\`\`
+
+Only request an operation when the thread clearly calls for it. The block is removed from your reply, and the results are listed under it.`,
+    priority: SECTION_PRIORITY.instructions,
+    minTokens: 300
+  };
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+const isIssueNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Check one requested action; returns the action or an error message
+ */
+function validateAction(raw: any): IssueAction | string {
+  if (!raw || typeof raw !== 'object') return 'not an object';
+  switch (raw.type) {
+    case 'add_labels':
+    case 'remove_labels':
+      return isStringList(raw.labels) ? { type: raw.type, labels: raw.labels.map((l: string) => l.trim()) } : '`labels` must be a non-empty list of names';
+    case 'assign': {
+      const users = isStringList(raw.users) ? raw.users.map((u: string) => u.trim().replace(/^@/, '')) : null;
+      return users ? { type: 'assign', users } : '`users` must be a non-empty list of logins';
+    }
+    case 'set_milestone':
+      return raw.milestone === null || typeof raw.milestone === 'string' || isIssueNumber(raw.milestone)
+        ? { type: 'set_milestone', milestone: raw.milestone }
+        : '`milestone` must be a title, a number or null';
+    case 'close':
+      if (!CLOSE_REASONS.includes(raw.reason ?? 'completed')) return `\`reason\` must be one of ${CLOSE_REASONS.join(', ')}`;
+      if (raw.reason === 'duplicate' && !isIssueNumber(raw.duplicate_of)) return '`duplicate_of` is required for duplicates';
+      return { type: 'close', reason: raw.reason ?? 'completed', duplicateOf: raw.duplicate_of };
+    case 'lock':
+      return raw.reason === undefined || LOCK_REASONS.includes(raw.reason)
+        ? { type: 'lock', reason: raw.reason }
+        : `\`reason\` must be one of ${LOCK_REASONS.join(', ')}`;
+    case 'link':
+      return isIssueNumber(raw.issue)
+        ? { type: 'link', issue: raw.issue, note: typeof raw.note === 'string' ? raw.note : undefined }
+        : '`issue` must be an issue or PR number';
+    default:
+      return `unknown type \`${raw.type}\``;
+  }
+}
+
+/**
+ * Pull `openclaw-actions` blocks out of an agent response. A block holds
+ * a JSON (or YAML) list of actions, or an object with an `actions` list.
+ */
+export function parseActionRequests(response: string): ParsedActions {
+  const actions: IssueAction[] = [];
+  const errors: string[] = [];
+
+  for (const match of response.matchAll(ACTIONS_BLOCK)) {
+    let data: any;
+    try {
+      data = yaml.load(match[1]);
+    } catch (error) {
+      errors.push(`Could not parse the actions block: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+      continue;
+    }
+    const entries = Array.isArray(data) ? data : Array.isArray(data?.actions) ? data.actions : [data];
+    for (const entry of entries) {
+      const result = validateAction(entry);
+      if (typeof result === 'string') {
+        errors.push(`Invalid ${typeof entry?.type === 'string' ? `\`${entry.type}\` ` : ''}action: ${result}`);
+      } else {
+        actions.push(result);
+      }
+    }
+  }
+
+  if (actions.length > MAX_ACTIONS) {
+    errors.push(`Only the first ${MAX_ACTIONS} of ${actions.length} actions were run`);
+    actions.length = MAX_ACTIONS;
+  }
+
+  return { text: response.replace(ACTIONS_BLOCK, '').trim(), actions, errors };
+}
+
+/**
+ * Short description of an action, for logs and the results footer
+ */
+function describeAction(action: IssueAction): string {
+  switch (action.type) {
+    case 'add_labels': return `Add labels ${action.labels.map(l => `\`${l}\``).join(', ')}`;
+    case 'remove_labels': return `Remove labels ${action.labels.map(l => `\`${l}\``).join(', ')}`;
+    case 'assign': return `Assign ${action.users.map(u => `@${u}`).join(', ')}`;
+    case 'set_milestone': return action.milestone === null ? 'Clear the milestone' : `Set milestone "${action.milestone}"`;
+    case 'close': return action.reason === 'duplicate' ? `Close as duplicate of #${action.duplicateOf}` : `Close as ${action.reason.replace('_', ' ')}`;
+    case 'lock': return `Lock${action.reason ? ` (${action.reason})` : ''}`;
+    case 'link': return `Link #${action.issue}`;
+  }
+}
+
+/**
+ * Run one action through the REST API; returns a note for the footer
+ */
+async function executeAction(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  action: IssueAction
+): Promise<string> {
+  const issue = { owner, repo, issue_number: issueNumber };
+  switch (action.type) {
+    case 'add_labels': {
+      // addLabels would create missing labels, so only existing ones are used
+      const existing = new Set((await fetchRepoLabels(octokit, owner, repo)).map(l => l.name));
+      const unknown = action.labels.filter(l => !existing.has(l));
+      if (unknown.length === action.labels.length) {
+        throw new Error(`no such label: ${unknown.join(', ')}`);
+      }
+      await octokit.rest.issues.addLabels({ ...issue, labels: action.labels.filter(l => existing.has(l)) });
+      return unknown.length > 0 ? `skipped unknown ${unknown.map(l => `\`${l}\``).join(', ')}` : '';
+    }
+    case 'remove_labels':
+      for (const name of action.labels) {
+        await octokit.rest.issues.removeLabel({ ...issue, name });
+      }
+      return '';
+    case 'assign':
+      await octokit.rest.issues.addAssignees({ ...issue, assignees: action.users });
+      return '';
+    case 'set_milestone': {
+      let milestone: number | null = null;
+      if (typeof action.milestone === 'number') {
+        milestone = action.milestone;
+      } else if (typeof action.milestone === 'string') {
+        const milestones = await octokit.paginate(octokit.rest.issues.listMilestones, { owner, repo, state: 'open', per_page: 100 });
+        const found = milestones.find(m => m.title.toLowerCase() === (action.milestone as string).toLowerCase());
+        if (!found) throw new Error(`no open milestone named "${action.milestone}"`);
+        milestone = found.number;
+      }
+      await octokit.rest.issues.update({ ...issue, milestone });
+      return '';
+    }
+    case 'close':
+      if (action.reason === 'duplicate') {
+        // GitHub marks the issue as a duplicate from this comment
+        await octokit.rest.issues.createComment({ ...issue, body: `Duplicate of #${action.duplicateOf}` });
+      }
+      await octokit.rest.issues.update({ ...issue, state: 'closed', state_reason: action.reason === 'completed' ? 'completed' : 'not_planned' });
+      return '';
+    case 'lock':
+      await octokit.rest.issues.lock({ ...issue, lock_reason: action.reason });
+      return '';
+    case 'link':
+      // A mention on the other thread shows up in both timelines
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: action.issue,
+        body: `🤖 **OpenClaw Bot**\n\nRelated: #${issueNumber}${action.note ? ` (${action.note})` : ''}`
+      });
+      return '';
+  }
+}
+
+/**
+ * Run the requested actions that the repository allows, in order. Each
+ * action succeeds or fails on its own.
+ */
+export async function runActionRequests(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  actions: IssueAction[],
+  allow: IssueActionType[] = []
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+  for (const action of actions) {
+    if (!allow.includes(action.type)) {
+      core.info(`Refused action ${action.type}: not in actions.allow`);
+      results.push({ action, status: 'refused', message: 'not allowed in this repository' });
+      continue;
+    }
+    try {
+      const note = await executeAction(octokit, owner, repo, issueNumber, action);
+      core.info(`Action done: ${describeAction(action)}`);
+      results.push({ action, status: 'done', message: note });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      core.warning(`Action ${action.type} failed: ${message}`);
+      results.push({ action, status: 'failed', message });
+    }
+  }
+  return results;
+}
+
+/**
+ * Footer listing what happened to each requested action
+ */
+export function formatActionResults(results: ActionResult[], errors: string[] = []): string {
+  if (results.length === 0 && errors.length === 0) return '';
+  const icons = { done: '✅', refused: '🚫', failed: '❌' };
+  const lines = [
+    ...results.map(r => `- ${icons[r.status]} ${describeAction(r.action)}${r.message ? `: ${r.message}` : ''}`),
+    ...errors.map(e => `- ⚠️ ${e}`)
+  ];
+  return `**Actions**\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,87 @@
+import * as core from '@actions/core';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args?: unknown;
+  startedAt: number;
+  durationMs?: number;
+  status: 'running' | 'ok' | 'error';
+  error?: string;
+}
+
+const MAX_ARGS_CHARS = 120;
+const MAX_LISTED_CALLS = 50;
+
+/**
+ * One-line preview of a tool call's arguments
+ */
+export function formatToolArgs(args: unknown): string {
+  if (args === undefined || args === null) return '';
+  const text = typeof args === 'string' ? args : JSON.stringify(args);
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > MAX_ARGS_CHARS ? `${oneLine.substring(0, MAX_ARGS_CHARS)}…` : oneLine;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '-';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatStatus(call: ToolCall): string {
+  if (call.status === 'ok') return '✅';
+  if (call.status === 'error') return '❌';
+  return '⏳';
+}
+
+// Keep table cells on one line and out of inline code breakage
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/`/g, "'");
+
+/**
+ * Collapsible "What I did" section listing the agent's tool calls.
+ * Comments are public and not masked like logs, so arguments and error
+ * output only go to the step summary.
+ */
+export function formatToolActivity(calls: ToolCall[]): string {
+  if (calls.length === 0) return '';
+
+  const failed = calls.filter(c => c.status === 'error').length;
+  const rows = calls.slice(0, MAX_LISTED_CALLS).map(c =>
+    `| \`${cell(c.name)}\` | ${formatDuration(c.durationMs)} | ${formatStatus(c)} |`
+  );
+  const more = calls.length > MAX_LISTED_CALLS ? `\n\n_… and ${calls.length - MAX_LISTED_CALLS} more tool calls_` : '';
+  const label = `${calls.length} tool call${calls.length === 1 ? '' : 's'}${failed > 0 ? `, ${failed} failed` : ''}`;
+
+  return `<details>\n<summary>What I did (${label})</summary>\n\n| Tool | Duration | Result |\n|------|----------|--------|\n${rows.join('\n')}${more}\n\n</details>`;
+}
+
+// Step summary tables are raw HTML
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Write the tool calls to the job's step summary
+ */
+export async function writeActivitySummary(calls: ToolCall[]): Promise<void> {
+  if (calls.length === 0) return;
+  try {
+    await core.summary
+      .addHeading('OpenClaw activity', 3)
+      .addTable([
+        [
+          { data: 'Tool', header: true },
+          { data: 'Arguments', header: true },
+          { data: 'Duration', header: true },
+          { data: 'Result', header: true }
+        ],
+        ...calls.map(c => [
+          c.name,
+          formatToolArgs(c.args),
+          formatDuration(c.durationMs),
+          c.status === 'error' ? `failed${c.error ? `: ${formatToolArgs(c.error)}` : ''}` : c.status
+        ].map(escapeHtml))
+      ])
+      .write();
+  } catch (error) {
+    core.debug(`Failed to write step summary: ${error}`);
+  }
+}
@@ -0,0 +1,145 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { BotReviewComment, ParsedReview, ReviewComment, ReviewSeverity, REVIEW_SEVERITIES, formatCommentLocation } from './review';
+
+export type CheckConclusion = 'success' | 'neutral' | 'failure';
+
+type AnnotationLevel = 'notice' | 'warning' | 'failure';
+
+export interface CheckRunOptions {
+  name?: string;
+  // Lowest severity that fails the check
+  failOn?: ReviewSeverity;
+  // Earlier bot findings not yet marked addressed (incremental reviews)
+  earlierFindings?: BotReviewComment[];
+}
+
+export const DEFAULT_CHECK_NAME = 'OpenClaw Review';
+
+// GitHub accepts at most 50 annotations per create/update call
+const ANNOTATION_BATCH_SIZE = 50;
+const MAX_OUTPUT_CHARS = 65000;
+
+const ANNOTATION_LEVELS: Record<ReviewSeverity, AnnotationLevel> = {
+  blocker: 'failure',
+  major: 'warning',
+  minor: 'warning',
+  nit: 'notice',
+};
+
+/**
+ * Earlier findings this review didn't mark as addressed either
+ */
+function getUnresolved(review: ParsedReview, earlier: BotReviewComment[] = []): BotReviewComment[] {
+  const addressed = new Set((review.addressed || []).map(a => a.id));
+  return earlier.filter(c => !c.addressed && !addressed.has(c.id));
+}
+
+/**
+ * Check conclusion for a review: failure when changes are requested or a
+ * finding reaches `failOn`, success when approved or clean, else neutral.
+ * Unresolved earlier findings count like new ones, so an incremental
+ * review of a small fix can't turn the check green on its own.
+ */
+export function getCheckConclusion(review: ParsedReview, failOn: ReviewSeverity = 'blocker', earlier: BotReviewComment[] = []): CheckConclusion {
+  const threshold = REVIEW_SEVERITIES.indexOf(failOn);
+  const findings = [...review.comments, ...getUnresolved(review, earlier)];
+  const failing = findings.some(c => c.severity && REVIEW_SEVERITIES.indexOf(c.severity) <= threshold);
+  if (review.verdict === 'request_changes' || failing) return 'failure';
+  if (review.verdict === 'approve' || findings.length === 0) return 'success';
+  return 'neutral';
+}
+
+/**
+ * Short check title, e.g. "Changes requested: 1 blocker, 2 minor"
+ */
+function formatCheckTitle(review: ParsedReview, unresolved: BotReviewComment[]): string {
+  const verdicts: Record<ParsedReview['verdict'], string> = {
+    approve: 'Approved',
+    request_changes: 'Changes requested',
+    comment: 'Reviewed',
+  };
+  const counts = REVIEW_SEVERITIES
+    .map(severity => ({ severity, count: review.comments.filter(c => c.severity === severity).length }))
+    .filter(c => c.count > 0)
+    .map(c => `${c.count} ${c.severity}`);
+  const untagged = review.comments.filter(c => !c.severity).length;
+  if (untagged > 0) counts.push(`${untagged} other`);
+  if (unresolved.length > 0) counts.push(`${unresolved.length} unresolved from earlier reviews`);
+  return counts.length > 0 ? `${verdicts[review.verdict]}: ${counts.join(', ')}` : verdicts[review.verdict];
+}
+
+/**
+ * Annotations can only point at lines of the new file, so comments on
+ * removed lines (LEFT side) are listed in the check text instead
+ */
+function toAnnotation(comment: ReviewComment) {
+  return {
+    path: comment.path,
+    start_line: comment.startLine ?? comment.line,
+    end_line: comment.line,
+    annotation_level: comment.severity ? ANNOTATION_LEVELS[comment.severity] : 'notice' as AnnotationLevel,
+    title: `${comment.severity ? `${comment.severity}: ` : ''}${formatCommentLocation(comment)}`.substring(0, 255),
+    message: comment.body,
+    raw_details: comment.suggestion !== undefined ? `Suggested change:\n${comment.suggestion}` : undefined
+  };
+}
+
+/**
+ * Publish a review as a Check Run on the PR head, with findings as
+ * annotations. Lets branch protection gate on the review.
+ */
+export async function publishReviewCheck(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  headSha: string,
+  review: ParsedReview,
+  options: CheckRunOptions = {}
+): Promise<void> {
+  const unresolved = getUnresolved(review, options.earlierFindings);
+  const conclusion = getCheckConclusion(review, options.failOn, options.earlierFindings);
+  const title = formatCheckTitle(review, unresolved);
+  const annotations = review.comments.filter(c => c.side !== 'LEFT').map(toAnnotation);
+  const removedLines = review.comments.filter(c => c.side === 'LEFT');
+  const textParts: string[] = [];
+  if (removedLines.length > 0) {
+    textParts.push(`### Comments on removed lines\n\n${removedLines.map(c => `**${formatCommentLocation(c)}**\n${c.body}`).join('\n\n')}`);
+  }
+  if (unresolved.length > 0) {
+    textParts.push(`### Unresolved from earlier reviews\n\n${unresolved.map(c => `**\`${c.path}${c.line ? `:${c.line}` : ' (outdated)'}\`**\n${c.body}`).join('\n\n')}`);
+  }
+  const text = textParts.length > 0 ? textParts.join('\n\n') : undefined;
+
+  const output = {
+    title,
+    summary: review.summary.substring(0, MAX_OUTPUT_CHARS) || '_No summary._',
+    text: text?.substring(0, MAX_OUTPUT_CHARS)
+  };
+
+  try {
+    const { data: check } = await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: options.name || DEFAULT_CHECK_NAME,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion,
+      output: { ...output, annotations: annotations.slice(0, ANNOTATION_BATCH_SIZE) }
+    });
+
+    for (let i = ANNOTATION_BATCH_SIZE; i < annotations.length; i += ANNOTATION_BATCH_SIZE) {
+      await octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: check.id,
+        output: { ...output, annotations: annotations.slice(i, i + ANNOTATION_BATCH_SIZE) }
+      });
+    }
+
+    core.info(`Published check run "${options.name || DEFAULT_CHECK_NAME}": ${conclusion} with ${annotations.length} annotations`);
+  } catch (error) {
+    core.error(`Failed to publish check run: ${error}`);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import * as core from '@actions/core';
 import * as crypto from 'crypto';
 import WebSocket from 'ws';
+import { ToolCall } from './activity';
 
 // --- Device identity helpers (mirrors openclaw's device-identity.js) ---
 
@@ -88,6 +89,15 @@ const CLIENT_ID = 'gateway-client';
 const CLIENT_MODE = 'backend';
 const PROTOCOL_VERSION = 3;
 
+// Defaults; the action passes the configured limits
+const DEFAULT_AGENT_TIMEOUT_MS = 480000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 30000;
+// Backoff after the socket drops: 1s, 2s, 4s, 8s, 16s
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+
 // --- Client implementation ---
 
 interface RPCRequest {
@@ -115,6 +125,106 @@ interface StreamEvent {
 
 type Message = RPCRequest | RPCResponse | StreamEvent;
 
+// `data` of a tool event on the agent stream
+interface ToolEventData {
+  phase?: 'start' | 'update' | 'result' | 'end';
+  name?: string;
+  toolCallId?: string;
+  args?: unknown;
+  isError?: boolean;
+  error?: unknown;
+  result?: unknown;
+}
+
+/**
+ * Events emitted by OpenClawClient while a run is in progress
+ */
+export interface OpenClawClientEvents {
+  // A piece of assistant text as it streams
+  assistantDelta: { runId?: string; text: string };
+  toolStart: ToolCall;
+  toolEnd: ToolCall;
+  // Run lifecycle phase reported by the gateway (start, end, error)
+  lifecycle: { runId?: string; phase: string };
+  // The socket dropped and the handshake succeeded again
+  reconnect: { attempt: number };
+  error: Error;
+}
+
+export type OpenClawClientEvent = keyof OpenClawClientEvents;
+
+type Listener<K extends OpenClawClientEvent> = (payload: OpenClawClientEvents[K]) => void;
+
+/**
+ * One item of a streamed run, see `streamMessage`
+ */
+export type StreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'toolStart'; call: ToolCall }
+  | { type: 'toolEnd'; call: ToolCall }
+  | { type: 'done'; text: string };
+
+/**
+ * Thrown by sendMessage when its AbortSignal fires. `reason` is the
+ * signal's reason, e.g. "superseded" or "timeout"; `partial` is the
+ * text streamed before the abort.
+ */
+export class AgentAbortedError extends Error {
+  constructor(public reason: string, public partial: string = '') {
+    super(`Agent run aborted (${reason})`);
+    this.name = 'AgentAbortedError';
+  }
+}
+
+/**
+ * Thrown by sendMessage when the agent doesn't finish within the agent
+ * timeout, with the text streamed so far
+ */
+export class AgentTimeoutError extends Error {
+  constructor(timeoutMs: number, public partial: string = '') {
+    super(`Agent did not finish within ${timeoutMs / 1000}s`);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+export interface OpenClawClientOptions {
+  // One agent turn, see sendMessage
+  agentTimeoutMs?: number;
+  // Other RPCs
+  requestTimeoutMs?: number;
+  // The connect handshake, on the first connect and every reconnect
+  connectTimeoutMs?: number;
+}
+
+export interface SendMessageOptions {
+  // Aborts the run on the gateway and rejects with AgentAbortedError
+  signal?: AbortSignal;
+}
+
+// The agent run currently waiting for completion
+interface ActiveRun {
+  requestId: string;
+  runId?: string;
+  sessionKey: string;
+  // The original agent request, re-sent as-is (same idempotency key) on reconnect
+  request: RPCRequest;
+  deadline: number;
+  // Completion is awaited with agent.wait after a reconnect
+  resumed?: boolean;
+  buffer: string[];
+  toolCalls: ToolCall[];
+  complete: (text: string) => void;
+  fail: (error: Error) => void;
+  lifecycleEnd: () => void;
+}
+
+// The connect handshake currently in progress
+interface PendingConnect {
+  requestId?: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
 export class OpenClawClient {
   private ws: WebSocket | null = null;
   private requestId = 0;
@@ -123,76 +233,52 @@ export class OpenClawClient {
     reject: (error: Error) => void;
     keepAlive?: boolean; // If true, don't remove from map after first response
   }>();
-  private streamBuffer: string[] = [];
-  private lifecycleEndPromise: Promise<void> | null = null;
-  private lifecycleEndResolve: (() => void) | null = null;
-  private agentCompletionResolve: ((text: string) => void) | null = null;
-  private connectResolve: (() => void) | null = null;
-  private connectReject: ((error: Error) => void) | null = null;
-  private connectRequestId: string | null = null;
+  private activeRun: ActiveRun | null = null;
+  private pendingConnect: PendingConnect | null = null;
+  private reconnecting: Promise<boolean> | null = null;
+  private closing = false;
+  private listeners = new Map<OpenClawClientEvent, Set<(payload: any) => void>>();
   private deviceIdentity: DeviceIdentity;
+  private agentTimeoutMs: number;
+  private requestTimeoutMs: number;
+  private connectTimeoutMs: number;
+
+  constructor(options: OpenClawClientOptions = {}) {
+    this.agentTimeoutMs = options.agentTimeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
 
-  constructor() {
     // Generate an ephemeral Ed25519 keypair for device identity
     this.deviceIdentity = generateDeviceIdentity();
     core.info(`Device identity generated (id=${this.deviceIdentity.deviceId.substring(0, 16)}...)`);
   }
 
+  /**
+   * Subscribe to a client event
+   */
+  on<K extends OpenClawClientEvent>(event: K, listener: Listener<K>): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<K extends OpenClawClientEvent>(event: K, listener: Listener<K>): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
   /**
    * Connect to the OpenClaw Gateway (with timeout)
    */
-  async connect(timeoutMs: number = 30000): Promise<void> {
+  async connect(timeoutMs: number = this.connectTimeoutMs): Promise<void> {
     core.info('Connecting to OpenClaw Gateway...');
-    
-    return new Promise((resolve, reject) => {
-      this.connectResolve = resolve;
-      this.connectReject = reject;
-      
-      // Timeout the entire connect handshake
-      const connectTimeout = setTimeout(() => {
-        if (this.connectReject) {
-          this.connectReject(new Error(`Connect handshake timeout after ${timeoutMs}ms`));
-          this.connectReject = null;
-          this.connectResolve = null;
-        }
-      }, timeoutMs);
-      
-      // Wrap resolve/reject to clear timeout
-      const origResolve = resolve;
-      const origReject = reject;
-      this.connectResolve = () => { clearTimeout(connectTimeout); origResolve(); };
-      this.connectReject = (err: Error) => { clearTimeout(connectTimeout); origReject(err); };
-      
-      const token = (globalThis as any).__openclawGatewayToken || '';
-      const wsUrl = token ? `ws://localhost:18789?token=${token}` : 'ws://localhost:18789';
-      this.ws = new WebSocket(wsUrl);
-      
-      this.ws.on('open', () => {
-        core.info('WebSocket connected, waiting for connect.challenge...');
-      });
-      
-      this.ws.on('error', (error) => {
-        core.error(`WebSocket error: ${error}`);
-        if (this.connectReject) {
-          this.connectReject(error instanceof Error ? error : new Error(String(error)));
-          this.connectReject = null;
-          this.connectResolve = null;
-        }
-      });
-      
-      this.ws.on('message', (data) => {
-        this.handleMessage(data.toString());
-      });
-      
-      this.ws.on('close', (code, reason) => {
-        core.info(`WebSocket closed (code=${code}, reason=${reason || 'none'})`);
-        if (this.connectReject) {
-          this.connectReject(new Error(`WebSocket closed during handshake (code=${code})`));
-          this.connectReject = null;
-          this.connectResolve = null;
-        }
-      });
-    });
+    this.closing = false;
+    return this.openSocket(timeoutMs);
   }
 
   /**
@@ -204,29 +290,39 @@ export class OpenClawClient {
    *
    * We listen for the second response to extract the full reply text.
    * The lifecycle 'end' event and stream buffer serve as fallbacks.
+   * Progress is reported through the client's events while the run is going.
+   * Aborting `options.signal` cancels the run on the gateway. If the socket
+   * drops, the client reconnects and picks the run back up (see resumeRun).
    */
-  async sendMessage(text: string, sessionKey: string = 'github-action'): Promise<string> {
+  async sendMessage(text: string, sessionKey: string = 'github-action', options: SendMessageOptions = {}): Promise<string> {
+    if (!this.ws && this.reconnecting) {
+      await this.reconnecting;
+    }
     if (!this.ws) {
       throw new Error('Not connected');
     }
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AgentAbortedError(String(signal.reason ?? 'aborted'));
+    }
     
     core.info(`Sending message to agent (${text.length} chars)...`);
     
-    // Set up lifecycle end listener (fallback)
-    this.lifecycleEndPromise = new Promise((resolve) => {
-      this.lifecycleEndResolve = resolve;
-    });
-    
-    this.streamBuffer = [];
-    
-    // Set up agent completion promise (resolves when 2nd RPC response arrives)
-    const agentCompletionPromise = new Promise<string>((resolve) => {
-      this.agentCompletionResolve = resolve;
-    });
-    
     // Manually send the agent request (don't use this.request() which
     // removes the pending entry after the first response)
     const id = this.nextId();
+    
+    // Completion comes from the 2nd RPC response, or the lifecycle end
+    // event as a fallback (see handleResponse / handleEvent)
+    let complete!: (text: string) => void;
+    let fail!: (error: Error) => void;
+    let lifecycleEnd!: () => void;
+    const agentCompletionPromise = new Promise<string>((resolve) => { complete = resolve; });
+    const connectionLostPromise = new Promise<never>((_, reject) => { fail = reject; });
+    // Only awaited through the races below
+    connectionLostPromise.catch(() => {});
+    const lifecycleEndPromise = new Promise<void>((resolve) => { lifecycleEnd = resolve; });
+    
     const request: RPCRequest = {
       type: 'req',
       id,
@@ -237,65 +333,366 @@ export class OpenClawClient {
         idempotencyKey: `gh-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`
       }
     };
+    const run: ActiveRun = {
+      requestId: id,
+      sessionKey,
+      request,
+      deadline: Date.now() + this.agentTimeoutMs,
+      buffer: [],
+      toolCalls: [],
+      complete,
+      fail,
+      lifecycleEnd
+    };
+    this.activeRun = run;
     
     // Register a keepAlive pending request – handleResponse will NOT remove it
     // after the first "accepted" ack; it stays until the completion response.
     const acceptedPromise = new Promise<any>((resolve, reject) => {
       this.pendingRequests.set(id, { resolve, reject, keepAlive: true });
       
-      // Hard timeout – if nothing comes back in 8 min, fail (leaves 2 min for cleanup before action hard timeout)
+      // Agent timeout – if nothing comes back in time, fail with what streamed so far
       setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
-          reject(new Error('Agent request timeout after 480s (8 minutes)'));
+          reject(new AgentTimeoutError(this.agentTimeoutMs, run.buffer.join('')));
         }
-      }, 480000);
+      }, this.agentTimeoutMs);
     });
     
-    this.send(request);
-    
-    // Wait for the initial "accepted" ack (first RPC response)
-    const acceptPayload = await acceptedPromise;
-    core.info(`Agent request accepted (runId=${acceptPayload?.runId ?? 'unknown'}), waiting for completion...`);
-    
-    // Now race: 2nd RPC response  vs  lifecycle end event  vs  timeout
-    const timeoutPromise = new Promise<string>((_, reject) =>
-      setTimeout(() => reject(new Error('Agent lifecycle timeout after 480s (8 minutes)')), 480000)
-    );
-    const lifecycleFallback = this.lifecycleEndPromise.then(() => {
-      // If lifecycle fires but we didn't get a 2nd RPC response, use stream buffer
-      const streamed = this.streamBuffer.join('');
-      return streamed || '(no response text captured)';
+    // Cancel the run on the gateway when the caller aborts
+    let onAbort: (() => void) | null = null;
+    const abortPromise = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        const reason = String(signal?.reason ?? 'aborted');
+        core.info(`Aborting agent run (${reason})...`);
+        void this.abortRun(sessionKey, run.runId);
+        reject(new AgentAbortedError(reason, run.buffer.join('')));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
+    // Only awaited through the races below
+    abortPromise.catch(() => {});
     
-    const responseText = await Promise.race([
-      agentCompletionPromise,
-      lifecycleFallback,
-      timeoutPromise,
-    ]);
-    
-    // Clean up: remove pending request if still there
-    this.pendingRequests.delete(id);
-    this.agentCompletionResolve = null;
-    
-    core.info(`Agent response complete (${responseText.length} chars)`);
-    return responseText;
+    try {
+      this.send(request);
+      
+      // Wait for the initial "accepted" ack (first RPC response)
+      const acceptPayload = await Promise.race([acceptedPromise, abortPromise, connectionLostPromise]);
+      run.runId = acceptPayload?.runId;
+      core.info(`Agent request accepted (runId=${acceptPayload?.runId ?? 'unknown'}), waiting for completion...`);
+      
+      // Now race: 2nd RPC response  vs  lifecycle end event  vs  timeout
+      const timeoutPromise = new Promise<string>((_, reject) =>
+        setTimeout(() => reject(new AgentTimeoutError(this.agentTimeoutMs, run.buffer.join(''))), Math.max(run.deadline - Date.now(), 0))
+      );
+      const lifecycleFallback = lifecycleEndPromise.then(() => {
+        // If lifecycle fires but we didn't get a 2nd RPC response, use stream buffer
+        const streamed = run.buffer.join('');
+        return streamed || '(no response text captured)';
+      });
+      
+      const responseText = await Promise.race([
+        agentCompletionPromise,
+        lifecycleFallback,
+        timeoutPromise,
+        abortPromise,
+        connectionLostPromise,
+      ]);
+      
+      core.info(`Agent response complete (${responseText.length} chars)`);
+      return responseText;
+    } finally {
+      // Clean up: remove pending request if still there
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+      this.pendingRequests.delete(id);
+      if (this.activeRun === run) {
+        this.activeRun = null;
+      }
+    }
+  }
+
+  /**
+   * Send a message and iterate over the run as it streams: text deltas
+   * and tool calls, then a final `done` chunk with the full response
+   */
+  async *streamMessage(text: string, sessionKey: string = 'github-action', options: SendMessageOptions = {}): AsyncGenerator<StreamChunk> {
+    const queue: StreamChunk[] = [];
+    let wake: (() => void) | null = null;
+    let failure: unknown = null;
+    const push = (chunk: StreamChunk) => {
+      queue.push(chunk);
+      wake?.();
+      wake = null;
+    };
+
+    const onDelta: Listener<'assistantDelta'> = d => push({ type: 'delta', text: d.text });
+    const onToolStart: Listener<'toolStart'> = call => push({ type: 'toolStart', call });
+    const onToolEnd: Listener<'toolEnd'> = call => push({ type: 'toolEnd', call });
+    this.on('assistantDelta', onDelta).on('toolStart', onToolStart).on('toolEnd', onToolEnd);
+
+    this.sendMessage(text, sessionKey, options).then(
+      response => push({ type: 'done', text: response }),
+      error => {
+        failure = error ?? new Error('Agent run failed');
+        wake?.();
+        wake = null;
+      }
+    );
+
+    try {
+      while (true) {
+        const chunk = queue.shift();
+        if (chunk) {
+          yield chunk;
+          if (chunk.type === 'done') return;
+          continue;
+        }
+        if (failure) throw failure;
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+    } finally {
+      this.off('assistantDelta', onDelta).off('toolStart', onToolStart).off('toolEnd', onToolEnd);
+    }
+  }
+
+  /**
+   * Check whether the Gateway still holds history for a session.
+   * Sessions live in the runner's home directory, so they are lost
+   * whenever the Gateway starts on a fresh machine.
+   */
+  async hasSessionHistory(sessionKey: string): Promise<boolean> {
+    try {
+      const payload = await this.request('chat.history', { sessionKey, limit: 1 });
+      const messages = Array.isArray(payload?.messages) ? payload.messages : [];
+      return messages.length > 0;
+    } catch (error) {
+      core.debug(`chat.history failed for ${sessionKey}: ${error}`);
+      return false;
+    }
   }
 
   /**
    * Disconnect from the Gateway
    */
   disconnect(): void {
+    this.closing = true;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
   }
 
+  /**
+   * Open the WebSocket and complete the connect.challenge handshake. The
+   * same device identity is used on every connect, so a reconnect is
+   * seen as the same device.
+   */
+  private openSocket(timeoutMs: number = this.connectTimeoutMs): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Only a socket that completed the handshake is reconnected when it drops
+      let ready = false;
+      
+      // Timeout the entire connect handshake
+      const connectTimeout = setTimeout(() => {
+        this.settleConnect(new Error(`Connect handshake timeout after ${timeoutMs}ms`));
+        if (this.ws === ws) this.ws = null;
+        ws.terminate();
+      }, timeoutMs);
+      
+      this.pendingConnect = {
+        resolve: () => { clearTimeout(connectTimeout); ready = true; resolve(); },
+        reject: (err: Error) => { clearTimeout(connectTimeout); reject(err); }
+      };
+      
+      const token = (globalThis as any).__openclawGatewayToken || '';
+      const wsUrl = token ? `ws://localhost:18789?token=${token}` : 'ws://localhost:18789';
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
+      
+      ws.on('open', () => {
+        core.info('WebSocket connected, waiting for connect.challenge...');
+      });
+      
+      ws.on('error', (error) => {
+        core.error(`WebSocket error: ${error}`);
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.emit('error', err);
+        this.settleConnect(err);
+      });
+      
+      ws.on('message', (data) => {
+        this.handleMessage(data.toString());
+      });
+      
+      ws.on('close', (code, reason) => {
+        core.info(`WebSocket closed (code=${code}, reason=${reason || 'none'})`);
+        // A socket we already replaced
+        if (this.ws !== ws) return;
+        this.ws = null;
+        
+        // Plain requests were sent on this socket and won't be answered;
+        // the agent request stays registered for the resumed run
+        for (const [id, pending] of this.pendingRequests) {
+          if (!pending.keepAlive) {
+            this.pendingRequests.delete(id);
+            pending.reject(new Error(`WebSocket closed (code=${code})`));
+          }
+        }
+        
+        if (!ready) {
+          this.settleConnect(new Error(`WebSocket closed during handshake (code=${code})`));
+        } else if (!this.closing && !this.reconnecting) {
+          this.reconnecting = this.reconnect().finally(() => { this.reconnecting = null; });
+        }
+      });
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff after the socket dropped, then
+   * resume the in-flight run. Fails the run when every attempt fails.
+   */
+  private async reconnect(): Promise<boolean> {
+    for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS; attempt++) {
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+      core.info(`Reconnecting to OpenClaw Gateway in ${delay / 1000}s (attempt ${attempt}/${RECONNECT_ATTEMPTS})...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (this.closing) return false;
+      
+      try {
+        await this.openSocket();
+        core.info('Reconnected to OpenClaw Gateway');
+        this.emit('reconnect', { attempt });
+        if (this.activeRun) {
+          void this.resumeRun(this.activeRun);
+        }
+        return true;
+      } catch (error) {
+        core.warning(`Reconnect attempt ${attempt} failed: ${error}`);
+      }
+    }
+    
+    const error = new Error(`Lost connection to the OpenClaw Gateway (${RECONNECT_ATTEMPTS} reconnect attempts failed)`);
+    core.error(error.message);
+    this.emit('error', error);
+    this.activeRun?.fail(error);
+    return false;
+  }
+
+  /**
+   * Pick a run back up on a new socket. A run the gateway already accepted
+   * is awaited with agent.wait and its reply read from the session history,
+   * since stream events sent while disconnected are lost. A run that was
+   * never acknowledged is re-sent with the same idempotency key, which the
+   * gateway dedupes instead of starting a second run.
+   */
+  private async resumeRun(run: ActiveRun): Promise<void> {
+    if (!run.runId) {
+      core.info('Re-sending agent request after reconnect...');
+      this.send(run.request);
+      return;
+    }
+    
+    core.info(`Resuming agent run ${run.runId}...`);
+    run.resumed = true;
+    const timeoutMs = Math.max(run.deadline - Date.now(), 1000);
+    try {
+      const result = await this.request('agent.wait', { runId: run.runId, timeoutMs }, timeoutMs + 10000);
+      if (this.activeRun !== run) return;
+      
+      if (result?.status === 'error') {
+        const errText = typeof result.error === 'string' ? result.error : result.error?.message || 'Unknown error';
+        core.error(`Agent returned error status: ${errText}`);
+        this.emit('error', new Error(errText));
+        run.complete(`⚠️ Error: ${errText}`);
+        return;
+      }
+      if (result?.status === 'timeout') {
+        // sendMessage's own timeout reports this
+        return;
+      }
+      
+      const reply = await this.fetchLastReply(run.sessionKey);
+      core.info(`Resumed agent run ${run.runId} complete (${reply.length} chars)`);
+      run.complete(reply || run.buffer.join('') || '(no response text captured)');
+    } catch (error) {
+      // A dropped socket reconnects and resumes again; anything else
+      // falls back to the lifecycle end event
+      core.warning(`agent.wait failed for run ${run.runId}: ${error}`);
+      run.resumed = false;
+    }
+  }
+
+  /**
+   * Text of the latest assistant message in a session
+   */
+  private async fetchLastReply(sessionKey: string): Promise<string> {
+    try {
+      const payload = await this.request('chat.history', { sessionKey, limit: 5 });
+      const messages: any[] = Array.isArray(payload?.messages) ? payload.messages : [];
+      const reply = [...messages].reverse().find(m => m?.role === 'assistant');
+      if (typeof reply?.content === 'string') return reply.content;
+      if (Array.isArray(reply?.content)) {
+        return reply.content
+          .map((part: any) => (typeof part === 'string' ? part : part?.text ?? ''))
+          .filter(Boolean)
+          .join('\n');
+      }
+      return '';
+    } catch (error) {
+      core.debug(`chat.history failed for ${sessionKey}: ${error}`);
+      return '';
+    }
+  }
+
+  /**
+   * Ask the gateway to stop a run. Errors are logged, not thrown, since
+   * the caller is already giving up on the run.
+   */
+  private async abortRun(sessionKey: string, runId?: string): Promise<void> {
+    try {
+      await this.request('chat.abort', runId ? { sessionKey, runId } : { sessionKey });
+      core.info(`Agent run ${runId ?? '(pending)'} aborted`);
+    } catch (error) {
+      core.warning(`chat.abort failed: ${error}`);
+    }
+  }
+
+  /**
+   * Call listeners for an event. A throwing listener doesn't break the run.
+   */
+  private emit<K extends OpenClawClientEvent>(event: K, payload: OpenClawClientEvents[K]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        core.warning(`${event} listener failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Resolve or reject the pending connect handshake, if any
+   */
+  private settleConnect(error?: Error): void {
+    const pending = this.pendingConnect;
+    if (!pending) return;
+    this.pendingConnect = null;
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
   /**
    * Send an RPC request and wait for response
    */
-  private async request(method: string, params: any): Promise<any> {
+  private async request(method: string, params: any, timeoutMs: number = this.requestTimeoutMs): Promise<any> {
+    if (!this.ws && this.reconnecting) {
+      await this.reconnecting;
+    }
     if (!this.ws) {
       throw new Error('Not connected');
     }
@@ -312,13 +709,12 @@ export class OpenClawClient {
       this.pendingRequests.set(id, { resolve, reject });
       this.send(request);
       
-      // Timeout after 60 seconds
       setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
           reject(new Error(`Request timeout: ${method}`));
         }
-      }, 60000);
+      }, timeoutMs);
     });
   }
 
@@ -350,32 +746,25 @@ export class OpenClawClient {
     core.info(`RPC response: id=${response.id} ok=${response.ok} payload=${JSON.stringify(response.payload || errStr || '').substring(0, 200)}`);
     
     // Handle connect handshake response (hello-ok or rejection)
-    if (this.connectRequestId && response.id === this.connectRequestId) {
-      this.connectRequestId = null;
+    if (this.pendingConnect?.requestId && response.id === this.pendingConnect.requestId) {
       if (response.ok && response.payload?.type === 'hello-ok') {
         core.info(`Connected! Protocol version: ${response.payload.protocol}`);
-        if (this.connectResolve) {
-          this.connectResolve();
-          this.connectResolve = null;
-          this.connectReject = null;
-        }
+        this.settleConnect();
       } else {
         const errMsg = response.error
           ? (typeof response.error === 'object' ? response.error.message : String(response.error))
           : JSON.stringify(response.payload);
         const err = new Error(`Connect rejected: ${errMsg}`);
         core.error(err.message);
-        if (this.connectReject) {
-          this.connectReject(err);
-          this.connectReject = null;
-          this.connectResolve = null;
-        }
+        this.settleConnect(err);
       }
       return;
     }
     
     const pending = this.pendingRequests.get(response.id);
     if (pending) {
+      const run = this.activeRun?.requestId === response.id ? this.activeRun : null;
+
       if (!response.ok) {
         // Error response – always resolve immediately (remove from map)
         this.pendingRequests.delete(response.id);
@@ -383,11 +772,11 @@ export class OpenClawClient {
           ? (typeof response.error === 'object' ? response.error.message : String(response.error))
           : 'Request failed';
         // If this is a keepAlive request whose accepted promise was already resolved,
-        // pending.reject is a no-op. Fire agentCompletionResolve so sendMessage
-        // doesn't hang waiting for the 300s lifecycle timeout.
-        if (pending.keepAlive && this.agentCompletionResolve) {
-          this.agentCompletionResolve(`⚠️ Error: ${msg}`);
-          this.agentCompletionResolve = null;
+        // pending.reject is a no-op. Complete the run so sendMessage
+        // doesn't hang waiting for the lifecycle timeout.
+        if (pending.keepAlive && run) {
+          this.emit('error', new Error(msg));
+          run.complete(`⚠️ Error: ${msg}`);
         }
         pending.reject(new Error(msg));
         return;
@@ -397,14 +786,14 @@ export class OpenClawClient {
       
       // Dual-response pattern (keepAlive requests like 'agent'):
       //   1st response: status="accepted" → resolve the accepted promise, keep listening
-      //   2nd response: status="ok" / summary="completed" → extract text, fire completion
+      //   2nd response: status="ok" / summary="completed" → extract text, complete the run
       if (pending.keepAlive) {
         if (payload.status === 'accepted') {
           // First response – ack. Resolve the accepted promise but keep listening.
           // We swap the resolver out so the *next* response on this id
           // won't double-resolve the same promise.
           pending.resolve(payload);
-          // Replace resolve/reject with no-ops; the completion will go via agentCompletionResolve
+          // Replace resolve/reject with no-ops; the completion goes via the active run
           pending.resolve = () => {};
           pending.reject = () => {};
           return; // keep in pendingRequests
@@ -419,10 +808,8 @@ export class OpenClawClient {
             ? (typeof payload.error === 'string' ? payload.error : payload.error.message || JSON.stringify(payload.error))
             : payload.summary || 'Unknown error';
           core.error(`Agent returned error status: ${errText}`);
-          if (this.agentCompletionResolve) {
-            this.agentCompletionResolve(`⚠️ Error: ${errText}`);
-            this.agentCompletionResolve = null;
-          }
+          this.emit('error', new Error(errText));
+          run?.complete(`⚠️ Error: ${errText}`);
           return;
         }
         
@@ -446,11 +833,10 @@ export class OpenClawClient {
         
         core.info(`Agent completion received (${resultText.length} chars text)`);
         
-        if (this.agentCompletionResolve) {
+        if (run) {
           // Prefer streamed content if we collected any, since it may be richer
-          const streamed = this.streamBuffer.join('');
-          this.agentCompletionResolve(streamed || resultText || '(empty response)');
-          this.agentCompletionResolve = null;
+          const streamed = run.buffer.join('');
+          run.complete(streamed || resultText || '(empty response)');
         }
         return;
       }
@@ -467,75 +853,128 @@ export class OpenClawClient {
   private handleEvent(event: StreamEvent): void {
     // Handle connect.challenge from gateway
     if (event.event === 'connect.challenge') {
-      const nonce: string | undefined = event.payload?.nonce;
-      core.info(`Received connect.challenge (nonce=${nonce?.substring(0, 8) ?? 'none'}...), sending connect request...`);
-      const token: string = (globalThis as any).__openclawGatewayToken || '';
-      
-      const connectId = this.nextId();
-      this.connectRequestId = connectId;
-
-      const role = 'operator';
-      const scopes = ['operator.read', 'operator.write'];
-      const signedAtMs = Date.now();
-      
-      // Build the signed device payload (same format as the official Gateway client)
-      const authPayload = buildDeviceAuthPayload({
-        deviceId: this.deviceIdentity.deviceId,
-        clientId: CLIENT_ID,
-        clientMode: CLIENT_MODE,
-        role,
-        scopes,
-        signedAtMs,
-        token: token || null,
-        nonce,
-      });
-      const signature = signDevicePayload(this.deviceIdentity.privateKeyPem, authPayload);
-      
-      const connectRequest = {
-        type: 'req' as const,
-        id: connectId,
-        method: 'connect',
-        params: {
-          minProtocol: PROTOCOL_VERSION,
-          maxProtocol: PROTOCOL_VERSION,
-          client: {
-            id: CLIENT_ID,
-            version: '0.2.0',
-            platform: process.platform,
-            mode: CLIENT_MODE,
-          },
-          role,
-          scopes,
-          caps: [],
-          auth: {
-            token: token || undefined,
-          },
-          device: {
-            id: this.deviceIdentity.deviceId,
-            publicKey: publicKeyRawBase64UrlFromPem(this.deviceIdentity.publicKeyPem),
-            signature,
-            signedAt: signedAtMs,
-            nonce,
-          },
-        }
-      };
-      
-      core.info(`Sending connect request (id=${connectId})...`);
-      this.send(connectRequest);
+      this.sendConnect(event.payload?.nonce);
       return;
     }
     
+    const stream = event.stream ?? event.payload?.stream;
+    const run = this.activeRun;
+    
     // Agent stream events
-    if (event.event === 'agent' && event.stream === 'assistant' && event.text) {
-      this.streamBuffer.push(event.text);
+    if (event.event === 'agent' && stream === 'assistant' && event.text) {
+      run?.buffer.push(event.text);
+      this.emit('assistantDelta', { runId: run?.runId, text: event.text });
+    } else if (event.event === 'agent' && stream === 'tool') {
+      this.handleToolEvent((event.payload?.data ?? event.payload ?? {}) as ToolEventData);
+    }
+    
+    // Lifecycle
+    const phase = event.event === 'lifecycle'
+      ? event.payload?.state ?? event.payload?.phase
+      : event.event === 'agent' && stream === 'lifecycle' ? event.payload?.data?.phase : undefined;
+    if (phase) {
+      this.emit('lifecycle', { runId: run?.runId, phase });
+      // A resumed run may have missed deltas, so it completes from agent.wait
+      if (phase === 'end' && !run?.resumed) {
+        run?.lifecycleEnd();
+      }
+    }
+  }
+
+  /**
+   * Answer the gateway's connect.challenge with a signed connect request
+   */
+  private sendConnect(nonce: string | undefined): void {
+    core.info(`Received connect.challenge (nonce=${nonce?.substring(0, 8) ?? 'none'}...), sending connect request...`);
+    const token: string = (globalThis as any).__openclawGatewayToken || '';
+    
+    const connectId = this.nextId();
+    if (this.pendingConnect) {
+      this.pendingConnect.requestId = connectId;
     }
+
+    const role = 'operator';
+    const scopes = ['operator.read', 'operator.write'];
+    const signedAtMs = Date.now();
+    
+    // Build the signed device payload (same format as the official Gateway client)
+    const authPayload = buildDeviceAuthPayload({
+      deviceId: this.deviceIdentity.deviceId,
+      clientId: CLIENT_ID,
+      clientMode: CLIENT_MODE,
+      role,
+      scopes,
+      signedAtMs,
+      token: token || null,
+      nonce,
+    });
+    const signature = signDevicePayload(this.deviceIdentity.privateKeyPem, authPayload);
     
-    // Lifecycle end
-    if (event.event === 'lifecycle' && event.payload?.state === 'end') {
-      if (this.lifecycleEndResolve) {
-        this.lifecycleEndResolve();
-        this.lifecycleEndResolve = null;
+    const connectRequest = {
+      type: 'req' as const,
+      id: connectId,
+      method: 'connect',
+      params: {
+        minProtocol: PROTOCOL_VERSION,
+        maxProtocol: PROTOCOL_VERSION,
+        client: {
+          id: CLIENT_ID,
+          version: '0.2.0',
+          platform: process.platform,
+          mode: CLIENT_MODE,
+        },
+        role,
+        scopes,
+        caps: [],
+        auth: {
+          token: token || undefined,
+        },
+        device: {
+          id: this.deviceIdentity.deviceId,
+          publicKey: publicKeyRawBase64UrlFromPem(this.deviceIdentity.publicKeyPem),
+          signature,
+          signedAt: signedAtMs,
+          nonce,
+        },
+      }
+    };
+    
+    core.info(`Sending connect request (id=${connectId})...`);
+    this.send(connectRequest);
+  }
+
+  /**
+   * Track a tool call from its start and result events
+   */
+  private handleToolEvent(data: ToolEventData): void {
+    const run = this.activeRun;
+    const calls = run?.toolCalls ?? [];
+    const isEnd = data.phase === 'result' || data.phase === 'end';
+    const id = data.toolCallId || `${data.name}-${calls.length}`;
+    // Without an id, a result belongs to the latest running call of that tool
+    let call = data.toolCallId
+      ? calls.find(c => c.id === id)
+      : isEnd ? [...calls].reverse().find(c => c.name === (data.name || 'tool') && c.status === 'running') : undefined;
+
+    if (!call) {
+      call = { id, name: data.name || 'tool', args: data.args, startedAt: Date.now(), status: 'running' };
+      calls.push(call);
+      core.info(`Tool started: ${call.name}`);
+      this.emit('toolStart', call);
+    }
+    if (data.args !== undefined && call.args === undefined) {
+      call.args = data.args;
+    }
+
+    if (isEnd && call.status === 'running') {
+      call.durationMs = Date.now() - call.startedAt;
+      call.status = data.isError || data.error ? 'error' : 'ok';
+      if (call.status === 'error') {
+        const error = data.error ?? data.result;
+        call.error = typeof error === 'string' ? error : error !== undefined ? JSON.stringify(error) : undefined;
       }
+      core.info(`Tool ${call.status === 'ok' ? 'finished' : 'failed'}: ${call.name} (${call.durationMs}ms)`);
+      this.emit('toolEnd', call);
     }
   }
 
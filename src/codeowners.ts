@@ -0,0 +1,97 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { matchesGlob } from './glob';
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+}
+
+export interface CodeOwnersArea {
+  owner: string;
+  files: string[];
+}
+
+// Where GitHub looks for CODEOWNERS, in order
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+/**
+ * Parse a CODEOWNERS file into rules, in file order
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners: owners.filter(o => o.includes('@')) });
+  }
+  return rules;
+}
+
+/**
+ * Owners of a path; like GitHub, the last matching rule wins
+ */
+export function findCodeOwners(rules: CodeOwnersRule[], filePath: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (matchesGlob(filePath, rules[i].pattern)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Group changed files by the owners of their area, most files first
+ */
+export function groupByCodeOwners(rules: CodeOwnersRule[], files: string[]): CodeOwnersArea[] {
+  const areas = new Map<string, string[]>();
+  for (const file of files) {
+    for (const owner of findCodeOwners(rules, file)) {
+      areas.set(owner, [...(areas.get(owner) || []), file]);
+    }
+  }
+  return [...areas.entries()]
+    .map(([owner, ownedFiles]) => ({ owner, files: ownedFiles }))
+    .sort((a, b) => b.files.length - a.files.length);
+}
+
+/**
+ * Fetch and parse the repository's CODEOWNERS at `ref`. Returns no rules
+ * when the repository has none.
+ */
+export async function fetchCodeOwners(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  ref?: string
+): Promise<CodeOwnersRule[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+        mediaType: { format: 'raw' }
+      });
+      const rules = parseCodeOwners(typeof data === 'string' ? data : String(data));
+      core.info(`Loaded ${rules.length} CODEOWNERS rules from ${path}`);
+      return rules;
+    } catch (error) {
+      core.debug(`No CODEOWNERS at ${path}: ${error}`);
+    }
+  }
+  return [];
+}
+
+/**
+ * One-line summary of the owners whose areas a PR touches
+ */
+export function formatCodeOwnersAreas(areas: CodeOwnersArea[]): string {
+  if (areas.length === 0) return '';
+  const list = areas
+    .map(a => `${a.owner} (${a.files.length} file${a.files.length === 1 ? '' : 's'})`)
+    .join(', ');
+  return `**Code owners:** this PR touches areas owned by ${list}.`;
+}
@@ -0,0 +1,258 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { buildReviewSections, PRFile, PullRequestInfo, ReviewOptions } from './review';
+import { CodeOwnersArea } from './codeowners';
+import { buildFixSections, FixOptions } from './fix';
+import { PromptSection, requestSection } from './prompt';
+
+/**
+ * How the agent's response to a command is posted back to GitHub
+ */
+export type PostingStrategy = 'comment' | 'review' | 'labels' | 'fix' | 'triage';
+
+export interface ParsedCommand {
+  name: string;
+  args: string;
+}
+
+export interface CommandContext {
+  octokit: ReturnType<typeof github.getOctokit>;
+  owner: string;
+  repo: string;
+  prefix: string;
+  args: string;
+  author: string;
+  // Path rules and ignore globs for the review command
+  reviewOptions: ReviewOptions;
+  // Path limits for the fix command
+  fixOptions: FixOptions;
+  issue: {
+    number: number;
+    title: string;
+    body?: string | null;
+    html_url?: string;
+    isPR: boolean;
+  };
+}
+
+export interface CommandPrompt {
+  sections: PromptSection[];
+  prFiles?: PRFile[];
+  reviewFiles?: PRFile[];
+  headSha?: string;
+  codeOwners?: CodeOwnersArea[];
+  availableLabels?: string[];
+  // Title of the issue being fixed, for the commit and PR
+  issueTitle?: string;
+}
+
+/**
+ * Result of running a command: either a prompt for the agent,
+ * or a reply that is posted directly without involving the agent
+ */
+export type CommandOutcome = CommandPrompt | { reply: string };
+
+export interface CommandDefinition {
+  name: string;
+  usage: string;
+  description: string;
+  posting: PostingStrategy;
+  run: (ctx: CommandContext) => Promise<CommandOutcome>;
+}
+
+export const DEFAULT_COMMAND_PREFIX = '/openclaw';
+
+const MAX_EXPLAIN_CHARS = 20000;
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the first `/openclaw <command> [args]` line in a comment.
+ * Returns null when the comment contains no command.
+ */
+export function parseCommand(body: string, prefix: string = DEFAULT_COMMAND_PREFIX): ParsedCommand | null {
+  const pattern = new RegExp(`^[ \\t]*${escapeRegExp(prefix)}(?:[ \\t]+(\\S+))?(?:[ \\t]+(.*))?[ \\t]*$`, 'm');
+  const match = body.match(pattern);
+  if (!match) return null;
+
+  return {
+    name: (match[1] || 'help').toLowerCase(),
+    args: (match[2] || '').trim()
+  };
+}
+
+function threadLabel(ctx: CommandContext): string {
+  return `${ctx.issue.isPR ? 'PR' : 'issue'} #${ctx.issue.number}`;
+}
+
+function threadInfo(ctx: CommandContext): string {
+  return `Title: ${ctx.issue.title}\nURL: ${ctx.issue.html_url}\n\n${ctx.issue.body || '(no description)'}`;
+}
+
+/**
+ * Fetch the labels defined in the repository
+ */
+export async function fetchRepoLabels(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string
+): Promise<Array<{ name: string; description: string | null }>> {
+  try {
+    const labels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, {
+      owner,
+      repo,
+      per_page: 100
+    });
+    return labels.map(l => ({ name: l.name, description: l.description }));
+  } catch (error) {
+    core.warning(`Failed to fetch labels: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Extract the `LABELS: a, b` line from an agent response
+ */
+export function parseLabelResponse(response: string): string[] {
+  const match = response.match(/^\s*LABELS:\s*(.*)$/im);
+  if (!match) return [];
+
+  return match[1]
+    .split(',')
+    .map(l => l.trim().replace(/^[`"']|[`"']$/g, ''))
+    .filter(Boolean);
+}
+
+const COMMANDS: CommandDefinition[] = [
+  {
+    name: 'review',
+    usage: 'review',
+    description: 'Review the pull request and post inline comments',
+    posting: 'review',
+    run: async (ctx) => {
+      if (!ctx.issue.isPR) {
+        return { reply: '`review` only works on pull requests.' };
+      }
+      const { data: pr } = await ctx.octokit.rest.pulls.get({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        pull_number: ctx.issue.number
+      });
+      return buildReviewSections(ctx.octokit, ctx.owner, ctx.repo, pr as PullRequestInfo, ctx.reviewOptions);
+    }
+  },
+  {
+    name: 'summarize',
+    usage: 'summarize',
+    description: 'Summarize the discussion and current state of this thread',
+    posting: 'comment',
+    run: async (ctx) => ({
+      sections: [requestSection(`@${ctx.author} asked for a summary of ${threadLabel(ctx)}.\n\n${threadInfo(ctx)}\n\n---\n\nSummarize this ${ctx.issue.isPR ? 'pull request' : 'issue'}: a one-line TL;DR, the key points, open questions, and suggested next steps. Keep it short.`)]
+    })
+  },
+  {
+    name: 'explain',
+    usage: 'explain <file>',
+    description: 'Explain what a file does and how it fits into the project',
+    posting: 'comment',
+    run: async (ctx) => {
+      const filePath = ctx.args.split(/\s+/)[0]?.replace(/^\.?\//, '');
+      if (!filePath) {
+        return { reply: `Usage: \`${ctx.prefix} explain <file>\`` };
+      }
+
+      let ref: string | undefined;
+      if (ctx.issue.isPR) {
+        const { data: pr } = await ctx.octokit.rest.pulls.get({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          pull_number: ctx.issue.number
+        });
+        ref = pr.head.sha;
+      }
+
+      let content: string;
+      try {
+        const { data } = await ctx.octokit.rest.repos.getContent({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          path: filePath,
+          ref,
+          mediaType: { format: 'raw' }
+        });
+        content = typeof data === 'string' ? data : String(data);
+      } catch (error) {
+        core.warning(`Failed to fetch ${filePath}: ${error}`);
+        return { reply: `Could not find \`${filePath}\` in this repository.` };
+      }
+
+      if (content.length > MAX_EXPLAIN_CHARS) {
+        content = content.substring(0, MAX_EXPLAIN_CHARS) + '\n\n... (file truncated)';
+      }
+
+      return {
+        sections: [requestSection(`@${ctx.author} asked for an explanation of \`${filePath}\` on ${threadLabel(ctx)} (${ctx.issue.title}).\n\n## ${filePath}\n\n\`\`\`\n${content}\n\`\`\`\n\n---\n\nExplain what this file does, its main pieces, and how it fits into the project.${ctx.args.includes(' ') ? `\n\nThey also said: ${ctx.args.substring(ctx.args.indexOf(' ') + 1)}` : ''}`)]
+      };
+    }
+  },
+  {
+    name: 'label',
+    usage: 'label',
+    description: 'Suggest and apply labels from the repository\'s existing labels',
+    posting: 'labels',
+    run: async (ctx) => {
+      const labels = await fetchRepoLabels(ctx.octokit, ctx.owner, ctx.repo);
+      if (labels.length === 0) {
+        return { reply: 'This repository has no labels to choose from.' };
+      }
+
+      const labelList = labels
+        .map(l => `- ${l.name}${l.description ? `: ${l.description}` : ''}`)
+        .join('\n');
+
+      return {
+        sections: [requestSection(`@${ctx.author} asked you to label ${threadLabel(ctx)}.\n\n${threadInfo(ctx)}\n\n## Available Labels\n\n${labelList}\n\n---\n\nPick the labels that fit from the list above. Never invent labels. Reply with a single line in the form \`LABELS: label-one, label-two\`, followed by a one-sentence reason.`)],
+        availableLabels: labels.map(l => l.name)
+      };
+    }
+  },
+  {
+    name: 'fix',
+    usage: 'fix [instructions]',
+    description: 'Change the code to fix the issue and open a draft pull request',
+    posting: 'fix',
+    run: async (ctx) => {
+      if (ctx.issue.isPR) {
+        return { reply: '`fix` only works on issues.' };
+      }
+      return {
+        sections: buildFixSections(ctx.issue, ctx.author, process.cwd(), ctx.fixOptions, ctx.args || undefined),
+        issueTitle: ctx.issue.title
+      };
+    }
+  },
+  {
+    name: 'help',
+    usage: 'help',
+    description: 'Show this list of commands',
+    posting: 'comment',
+    run: async (ctx) => ({ reply: formatHelp(ctx.prefix) })
+  }
+];
+
+/**
+ * Look up a command by name
+ */
+export function getCommand(name: string): CommandDefinition | undefined {
+  return COMMANDS.find(c => c.name === name);
+}
+
+/**
+ * Format the list of available commands
+ */
+export function formatHelp(prefix: string = DEFAULT_COMMAND_PREFIX): string {
+  const rows = COMMANDS.map(c => `| \`${prefix} ${c.usage}\` | ${c.description} |`);
+  return `**Available commands:**\n\n| Command | Description |\n|---------|-------------|\n${rows.join('\n')}`;
+}
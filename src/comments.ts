@@ -0,0 +1,130 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+
+// Hidden markers that make a sticky comment findable and its history parseable
+const STICKY_MARKER = (key: string) => `<!-- openclaw:sticky=${key} -->`;
+const HISTORY_START = '<!-- openclaw:history -->';
+const HISTORY_END = '<!-- openclaw:history-end -->';
+const VERSION_MARKER = '<!-- openclaw:version -->';
+
+const MAX_STICKY_VERSIONS = 10;
+const DEFAULT_BOT_LOGIN = 'github-actions[bot]';
+// GitHub rejects comments over 65536 characters
+const MAX_COMMENT_CHARS = 65000;
+
+/**
+ * Sticky key for a trigger, or undefined for a new comment. `sticky` lists
+ * trigger types (`pull_request`, `issue_created`, ...) and command names.
+ */
+export function getStickyKey(sticky: string[] | undefined, type: string, command?: string): string | undefined {
+  const entries = sticky || [];
+  if (command && entries.includes(command)) return `command-${command}`;
+  if (entries.includes(type)) return type;
+  return undefined;
+}
+
+/**
+ * Remove the version history from a sticky comment body
+ */
+export function stripCommentHistory(body: string): string {
+  const start = body.indexOf(HISTORY_START);
+  const withoutHistory = start >= 0 ? body.substring(0, start) : body;
+  return withoutHistory.replace(/<!-- openclaw:sticky=[^>]* -->/g, '').trim();
+}
+
+/**
+ * Earlier versions kept in a sticky comment, newest first
+ */
+function parseCommentHistory(body: string): string[] {
+  const start = body.indexOf(HISTORY_START);
+  const end = body.indexOf(HISTORY_END);
+  if (start < 0 || end < start) return [];
+  return body
+    .substring(start + HISTORY_START.length, end)
+    .split(VERSION_MARKER)
+    .slice(1)
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build a sticky comment: the current content, then earlier versions in
+ * a collapsed `<details>` block
+ */
+export function buildStickyBody(key: string, body: string, history: string[]): string {
+  const marker = STICKY_MARKER(key);
+  let versions = history.slice(0, MAX_STICKY_VERSIONS);
+
+  const render = () => {
+    if (versions.length === 0) return `${body}\n\n${marker}`;
+    const entries = versions.map(v => `${VERSION_MARKER}\n${v}`).join('\n\n');
+    return `${body}\n\n${HISTORY_START}\n<details>\n<summary>Previous versions (${versions.length})</summary>\n\n${entries}\n${HISTORY_END}\n</details>\n\n${marker}`;
+  };
+
+  let rendered = render();
+  while (rendered.length > MAX_COMMENT_CHARS && versions.length > 0) {
+    versions = versions.slice(0, -1);
+    rendered = render();
+  }
+  return rendered;
+}
+
+/**
+ * Post a bot comment on an issue/PR. With a sticky key, the bot's earlier
+ * comment for the same key is edited instead, keeping its old content in
+ * the history. Only comments by `botLogin` count, so a pasted marker
+ * can't capture the answer; if the edit fails, a new comment is posted.
+ */
+export async function postBotComment(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  body: string,
+  stickyKey?: string,
+  botLogin: string = DEFAULT_BOT_LOGIN
+): Promise<void> {
+  if (!stickyKey) {
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+    return;
+  }
+
+  const marker = STICKY_MARKER(stickyKey);
+  let previous: { id: number; body: string; updated_at: string } | undefined;
+  try {
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100
+    });
+    const match = [...comments].reverse().find(c =>
+      c.user?.login.toLowerCase() === botLogin.toLowerCase() && (c.body || '').includes(marker)
+    );
+    if (match) {
+      previous = { id: match.id, body: match.body || '', updated_at: match.updated_at };
+    }
+  } catch (error) {
+    core.warning(`Failed to look up sticky comment: ${error}`);
+  }
+
+  if (!previous) {
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body: buildStickyBody(stickyKey, body, []) });
+    core.info(`Created sticky comment (${stickyKey})`);
+    return;
+  }
+
+  const earlier = `<details>\n<summary>Version from ${previous.updated_at}</summary>\n\n${stripCommentHistory(previous.body)}\n\n</details>`;
+  try {
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: previous.id,
+      body: buildStickyBody(stickyKey, body, [earlier, ...parseCommentHistory(previous.body)])
+    });
+    core.info(`Updated sticky comment ${previous.id} (${stickyKey})`);
+  } catch (error) {
+    core.warning(`Failed to update sticky comment ${previous.id}, posting a new one: ${error}`);
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body: buildStickyBody(stickyKey, body, []) });
+  }
+}
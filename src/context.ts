@@ -3,6 +3,14 @@ import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { fetchThreadHistory, ThreadMessage } from './session';
+import { PromptSection, SECTION_PRIORITY, summarizeMarkdown, summarizeList } from './prompt';
+import { ReviewPolicy, ReviewRule, ReviewSeverity } from './review';
+import { FixOptions } from './fix';
+import { IssueActionType } from './actions';
+import { TriageOptions } from './triage';
+import { DuplicateOptions } from './duplicates';
+import { ThreadMemoryOptions } from './threads';
 
 export interface OpenClawConfig {
   systemPrompt?: string;
@@ -13,6 +21,72 @@ export interface OpenClawConfig {
     openIssues?: boolean;
     maxIssues?: number;
   };
+  thread?: {
+    maxComments?: number;
+    maxReviewComments?: number;
+    maxLinked?: number;
+    maxChars?: number;
+  };
+  prompt?: {
+    maxTokens?: number;
+  };
+  review?: ReviewPolicy & {
+    incremental?: boolean;
+    rules?: ReviewRule[];
+    ignore?: string[];
+    codeowners?: boolean;
+    // Also publish the review as a Check Run
+    checkRun?: boolean;
+    checkName?: string;
+    checkFailOn?: ReviewSeverity;
+  };
+  comments?: {
+    // Trigger types and command names whose comment is edited in place
+    sticky?: string[];
+    // Post a placeholder right away and stream the answer into it
+    progress?: boolean;
+    // Seconds between placeholder edits
+    progressInterval?: number;
+    // Append the agent's tool calls in a collapsed "What I did" section
+    activity?: boolean;
+  };
+  // Fix mode: the agent edits the checkout and the action opens a draft PR
+  fix?: FixOptions & {
+    // Adding this label to an issue starts a fix
+    label?: string;
+  };
+  // Classify new issues with the repository's labels
+  triage?: TriageOptions;
+  // Per-thread records the bot keeps in its workspace
+  threadMemory?: ThreadMemoryOptions;
+  // Similar existing issues surfaced when an issue is opened
+  duplicates?: DuplicateOptions;
+  // GitHub operations the agent may request in an openclaw-actions block
+  actions?: {
+    allow?: IssueActionType[];
+  };
+  // Time limits in seconds; the action inputs of the same name win
+  limits?: {
+    hardTimeout?: number;
+    agentTimeout?: number;
+    requestTimeout?: number;
+    gatewayReadyTimeout?: number;
+  };
+  commands?: {
+    prefix?: string;
+    noCommand?: 'respond' | 'ignore';
+  };
+  triggers?: {
+    requireMention?: boolean;
+    mention?: string;
+    ignoreBots?: boolean;
+    botLogin?: string;
+    allowUsers?: string[];
+    denyUsers?: string[];
+    minAssociation?: 'OWNER' | 'MEMBER' | 'COLLABORATOR' | 'CONTRIBUTOR' | 'NONE';
+    optInLabels?: string[];
+    optOutLabels?: string[];
+  };
 }
 
 export interface RepoContext {
@@ -22,6 +96,23 @@ export interface RepoContext {
   config?: OpenClawConfig;
 }
 
+export interface ThreadContext {
+  number: number;
+  isPR: boolean;
+  title: string;
+  body: string;
+  state: string;
+  author: string;
+  labels: string[];
+  assignees: string[];
+  comments: ThreadMessage[];
+  reviewComments: Array<{ author: string; path: string; line?: number; body: string }>;
+  linked: Array<{ number: number; title: string; state: string; isPR: boolean }>;
+}
+
+// Always denied to fixes; a configured fix.deny adds to these
+const DEFAULT_FIX_DENY = ['.github/workflows/**'];
+
 const DEFAULT_CONFIG: OpenClawConfig = {
   context: {
     includeReadme: true,
@@ -29,9 +120,82 @@ const DEFAULT_CONFIG: OpenClawConfig = {
     recentCommits: 10,
     openIssues: true,
     maxIssues: 15,
+  },
+  thread: {
+    maxComments: 20,
+    maxReviewComments: 20,
+    maxLinked: 5,
+    maxChars: 12000,
+  },
+  review: {
+    incremental: true,
+    allowApprove: true,
+    codeowners: true,
+    checkRun: false,
+  },
+  comments: {
+    sticky: [],
+    progress: false,
+    progressInterval: 5,
+    activity: true,
+  },
+  fix: {
+    label: 'openclaw-fix',
+    deny: DEFAULT_FIX_DENY,
+    maxChangedLines: 500,
+    minPermission: 'write',
+  },
+  triage: {
+    enabled: false,
+    needsInfoLabel: 'needs-info',
+    needsInfoComment: true,
+  },
+  threadMemory: {
+    enabled: true,
+    maxAnswers: 5,
+    maxRelated: 3,
+  },
+  duplicates: {
+    enabled: true,
+    maxCandidates: 3,
+    minScore: 0.3,
+    closedDays: 90,
+    maxIssues: 1000,
+  },
+  actions: {
+    allow: [],
+  },
+  commands: {
+    prefix: '/openclaw',
+    noCommand: 'respond',
+  },
+  triggers: {
+    requireMention: false,
+    mention: '@openclaw',
+    ignoreBots: true,
+    botLogin: 'github-actions[bot]',
   }
 };
 
+/**
+ * Convert snake_case keys (the style documented in the README) to the
+ * camelCase used by OpenClawConfig
+ */
+function camelizeKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(camelizeKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [
+      /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/.test(key)
+        ? key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+        : key,
+      camelizeKeys(v)
+    ]));
+  }
+  return value;
+}
+
 /**
  * Load .openclaw.yml config from repo root or .github/
  */
@@ -47,9 +211,27 @@ export function loadConfig(): OpenClawConfig {
     if (fs.existsSync(configPath)) {
       try {
         const content = fs.readFileSync(configPath, 'utf-8');
-        const config = yaml.load(content) as OpenClawConfig;
+        const config = camelizeKeys(yaml.load(content)) as OpenClawConfig;
         core.info(`Loaded config from ${configPath}`);
-        return { ...DEFAULT_CONFIG, ...config, context: { ...DEFAULT_CONFIG.context, ...config?.context } };
+        return {
+          ...DEFAULT_CONFIG,
+          ...config,
+          context: { ...DEFAULT_CONFIG.context, ...config?.context },
+          thread: { ...DEFAULT_CONFIG.thread, ...config?.thread },
+          review: { ...DEFAULT_CONFIG.review, ...config?.review },
+          comments: { ...DEFAULT_CONFIG.comments, ...config?.comments },
+          fix: {
+            ...DEFAULT_CONFIG.fix,
+            ...config?.fix,
+            deny: [...new Set([...DEFAULT_FIX_DENY, ...(config?.fix?.deny || [])])]
+          },
+          triage: { ...DEFAULT_CONFIG.triage, ...config?.triage },
+          threadMemory: { ...DEFAULT_CONFIG.threadMemory, ...config?.threadMemory },
+          duplicates: { ...DEFAULT_CONFIG.duplicates, ...config?.duplicates },
+          actions: { ...DEFAULT_CONFIG.actions, ...config?.actions },
+          commands: { ...DEFAULT_CONFIG.commands, ...config?.commands },
+          triggers: { ...DEFAULT_CONFIG.triggers, ...config?.triggers },
+        };
       } catch (error) {
         core.warning(`Failed to parse ${configPath}: ${error}`);
       }
@@ -176,24 +358,202 @@ export async function buildRepoContext(githubToken: string): Promise<RepoContext
 }
 
 /**
- * Format repo context as a string for the system prompt
+ * Find `#123` references to other issues/PRs in the same repo
+ */
+export function findIssueReferences(texts: string[], exclude: number): number[] {
+  const refs = new Set<number>();
+  for (const text of texts) {
+    for (const match of text.matchAll(/(?:^|[^\w/])#(\d+)\b/g)) {
+      const number = parseInt(match[1], 10);
+      if (number !== exclude) refs.add(number);
+    }
+  }
+  return [...refs];
+}
+
+/**
+ * Build the context of a single issue/PR thread: body, labels, assignees,
+ * recent comments, review comments and referenced issues/PRs
+ */
+export async function buildThreadContext(
+  githubToken: string,
+  issueNumber: number,
+  excludeCommentId?: number
+): Promise<ThreadContext | undefined> {
+  const context = github.context;
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = context.repo;
+  const threadConfig = loadConfig().thread || DEFAULT_CONFIG.thread!;
+
+  let issue;
+  try {
+    ({ data: issue } = await octokit.rest.issues.get({ owner, repo, issue_number: issueNumber }));
+  } catch (error) {
+    core.warning(`Failed to fetch #${issueNumber}: ${error}`);
+    return undefined;
+  }
+
+  const isPR = !!issue.pull_request;
+  const comments = threadConfig.maxComments
+    ? (await fetchThreadHistory(octokit, owner, repo, issueNumber, threadConfig.maxComments + 1))
+        .filter(c => c.id !== excludeCommentId)
+        .slice(-threadConfig.maxComments)
+    : [];
+
+  let reviewComments: ThreadContext['reviewComments'] = [];
+  if (isPR && threadConfig.maxReviewComments) {
+    try {
+      const { data } = await octokit.rest.pulls.listReviewComments({
+        owner,
+        repo,
+        pull_number: issueNumber,
+        sort: 'created',
+        direction: 'desc',
+        per_page: threadConfig.maxReviewComments
+      });
+      reviewComments = data
+        .filter(c => c.id !== excludeCommentId)
+        .reverse()
+        .map(c => ({
+          author: c.user?.login || 'unknown',
+          path: c.path,
+          line: c.line ?? undefined,
+          body: c.body
+        }));
+    } catch (error) {
+      core.debug(`Failed to fetch review comments: ${error}`);
+    }
+  }
+
+  const linked: ThreadContext['linked'] = [];
+  const refs = findIssueReferences([issue.body || '', ...comments.map(c => c.body)], issueNumber)
+    .slice(0, threadConfig.maxLinked ?? 5);
+  for (const ref of refs) {
+    try {
+      const { data } = await octokit.rest.issues.get({ owner, repo, issue_number: ref });
+      linked.push({ number: ref, title: data.title, state: data.state, isPR: !!data.pull_request });
+    } catch (error) {
+      core.debug(`Failed to fetch referenced #${ref}: ${error}`);
+    }
+  }
+
+  return {
+    number: issueNumber,
+    isPR,
+    title: issue.title,
+    body: issue.body || '',
+    state: issue.state,
+    author: issue.user?.login || 'unknown',
+    labels: issue.labels.map(l => (typeof l === 'string' ? l : l.name || '')).filter(Boolean),
+    assignees: (issue.assignees || []).map(a => a.login),
+    comments,
+    reviewComments,
+    linked,
+  };
+}
+
+function truncate(text: string, maxChars: number, note: string): string {
+  return text.length > maxChars ? text.substring(0, maxChars) + `\n\n... (${note} truncated)` : text;
+}
+
+/**
+ * Format thread context for the prompt within a character budget.
+ * The header and body come first; recent comments are kept in full
+ * and older ones shrink to one-line excerpts once the budget runs low.
  */
-export function formatContextForPrompt(repoContext: RepoContext): string {
-  const parts: string[] = [];
+export function formatThreadContextForPrompt(thread: ThreadContext, maxChars: number = 12000): string {
+  const kind = thread.isPR ? 'PR' : 'Issue';
+  const header = [
+    `## ${kind} #${thread.number}: ${thread.title}`,
+    '',
+    `State: ${thread.state} · Author: @${thread.author}`,
+    `Labels: ${thread.labels.length > 0 ? thread.labels.join(', ') : '(none)'}`,
+    `Assignees: ${thread.assignees.length > 0 ? thread.assignees.map(a => `@${a}`).join(', ') : '(none)'}`,
+  ].join('\n');
+
+  const parts = [header, `### Description\n\n${truncate(thread.body || '(no description)', Math.floor(maxChars / 3), 'description')}`];
+
+  if (thread.linked.length > 0) {
+    const lines = thread.linked.map(l => `- #${l.number} (${l.isPR ? 'PR' : 'issue'}, ${l.state}): ${l.title}`);
+    parts.push(`### Referenced Issues/PRs\n\n${lines.join('\n')}`);
+  }
+
+  let remaining = maxChars - parts.join('\n\n').length;
+
+  if (thread.reviewComments.length > 0 && remaining > 0) {
+    const lines: string[] = [];
+    for (const c of [...thread.reviewComments].reverse()) {
+      const line = `- @${c.author} on \`${c.path}${c.line ? `:${c.line}` : ''}\`: ${truncate(c.body, 500, 'comment')}`;
+      if (line.length > remaining) break;
+      lines.unshift(line);
+      remaining -= line.length + 1;
+    }
+    if (lines.length > 0) {
+      parts.push(`### Review Comments\n\n${lines.join('\n')}`);
+    }
+  }
+
+  if (thread.comments.length > 0 && remaining > 0) {
+    const entries: string[] = [];
+    let omitted = 0;
+    for (const c of [...thread.comments].reverse()) {
+      const speaker = c.fromBot ? 'You (OpenClaw)' : `@${c.author}`;
+      const full = `**${speaker}** (${c.createdAt}):\n${truncate(c.body, 2000, 'comment')}`;
+      const excerpt = `**${speaker}** (${c.createdAt}): ${c.body.replace(/\s+/g, ' ').substring(0, 120)}…`;
+      // Keep the latest comments whole while there is room for more than
+      // a handful of excerpts after them
+      const entry = full.length < remaining - 1000 ? full : excerpt;
+      if (entry.length > remaining) {
+        omitted++;
+        continue;
+      }
+      entries.unshift(entry);
+      remaining -= entry.length + 2;
+    }
+    const note = omitted > 0 ? `_(${omitted} earlier comments omitted)_\n\n` : '';
+    parts.push(`### Discussion\n\n${note}${entries.join('\n\n')}`);
+  }
+
+  return `# Thread Context\n\n${parts.join('\n\n')}`;
+}
+
+/**
+ * Split repo context into prompt sections, so low-value parts
+ * (README, issue list) can be summarized or dropped to fit the budget
+ */
+export function buildContextSections(repoContext: RepoContext): PromptSection[] {
+  const sections: PromptSection[] = [];
 
   // Custom system prompt from config
   if (repoContext.config?.systemPrompt) {
-    parts.push(`## Custom Instructions\n\n${repoContext.config.systemPrompt}`);
+    sections.push({
+      id: 'custom-instructions',
+      content: `## Custom Instructions\n\n${repoContext.config.systemPrompt}`,
+      priority: SECTION_PRIORITY.instructions,
+      minTokens: 1000,
+    });
   }
 
   // README
   if (repoContext.readme) {
-    parts.push(`## README\n\n${repoContext.readme}`);
+    sections.push({
+      id: 'readme',
+      content: `## README\n\n${repoContext.readme}`,
+      priority: SECTION_PRIORITY.readme,
+      summarize: summarizeMarkdown,
+      droppable: true,
+    });
   }
 
   // Recent commits
   if (repoContext.recentCommits && repoContext.recentCommits.length > 0) {
-    parts.push(`## Recent Commits\n\n${repoContext.recentCommits.map(c => `- ${c}`).join('\n')}`);
+    sections.push({
+      id: 'recent-commits',
+      content: `## Recent Commits\n\n${repoContext.recentCommits.map(c => `- ${c}`).join('\n')}`,
+      priority: SECTION_PRIORITY.commits,
+      summarize: summarizeList(5),
+      droppable: true,
+    });
   }
 
   // Open issues
@@ -202,20 +562,22 @@ export function formatContextForPrompt(repoContext: RepoContext): string {
       const labels = i.labels.length > 0 ? ` [${i.labels.join(', ')}]` : '';
       return `- #${i.number}: ${i.title}${labels}`;
     });
-    parts.push(`## Open Issues\n\n${issueLines.join('\n')}`);
-  }
-
-  if (parts.length === 0) {
-    return '';
+    sections.push({
+      id: 'open-issues',
+      content: `## Open Issues\n\n${issueLines.join('\n')}`,
+      priority: SECTION_PRIORITY.issues,
+      summarize: summarizeList(5),
+      droppable: true,
+    });
   }
 
-  return `# Repository Context\n\n${parts.join('\n\n---\n\n')}`;
+  return sections;
 }
 
 /**
- * Build and format full context string
+ * Build repo context and split it into prompt sections
  */
-export async function getFormattedContext(githubToken: string): Promise<string> {
+export async function getContextSections(githubToken: string): Promise<PromptSection[]> {
   const repoContext = await buildRepoContext(githubToken);
-  return formatContextForPrompt(repoContext);
+  return buildContextSections(repoContext);
 }
@@ -0,0 +1,247 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptSection, SECTION_PRIORITY } from './prompt';
+
+export interface DuplicateOptions {
+  enabled?: boolean;
+  // Candidates shown to the agent and in the reply
+  maxCandidates?: number;
+  // Minimum similarity (0-1, relative to a perfect match)
+  minScore?: number;
+  // Closed issues stay in the index this many days after closing
+  closedDays?: number;
+  // Upper bound on issues fetched when the index is first built
+  maxIssues?: number;
+}
+
+interface IndexedIssue {
+  title: string;
+  state: 'open' | 'closed';
+  closedAt: string | null;
+  // Term frequencies of the title (counted twice) and body
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface IssueIndex {
+  version: number;
+  // Issues updated since this time are fetched on the next sync
+  syncedAt: string | null;
+  issues: Record<string, IndexedIssue>;
+}
+
+export interface DuplicateCandidate {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  // Similarity relative to a perfect match, 0-1
+  score: number;
+}
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'issue-index.json';
+const MAX_BODY_CHARS = 4000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'this', 'to', 'was', 'we', 'were', 'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Lowercased word tokens without stopwords, numbers-only tokens and
+ * plural "s"
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+/g) || [])
+    .filter(t => t.length > 1 && !STOPWORDS.has(t) && !/^\d+$/.test(t))
+    .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+}
+
+function termFrequencies(title: string, body: string): { terms: Record<string, number>; length: number } {
+  // Titles are short and to the point, so they count twice
+  const tokens = [...tokenize(title), ...tokenize(title), ...tokenize(body.substring(0, MAX_BODY_CHARS))];
+  // No prototype, so tokens like "constructor" don't hit Object's properties
+  const terms: Record<string, number> = Object.create(null);
+  for (const token of tokens) {
+    terms[token] = (terms[token] || 0) + 1;
+  }
+  return { terms, length: tokens.length };
+}
+
+// Indexes read back from JSON have a prototype, so only own terms count
+const termCount = (doc: { terms: Record<string, number> }, term: string) =>
+  Object.hasOwn(doc.terms, term) ? doc.terms[term] : 0;
+
+function emptyIndex(): IssueIndex {
+  return { version: INDEX_VERSION, syncedAt: null, issues: {} };
+}
+
+/**
+ * Read the index from the workspace; a missing or outdated file gives an
+ * empty index, which the next sync fills from scratch
+ */
+export function loadIssueIndex(workspacePath: string): IssueIndex {
+  const indexPath = path.join(workspacePath, INDEX_FILE);
+  try {
+    if (!fs.existsSync(indexPath)) return emptyIndex();
+    const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as IssueIndex;
+    return index.version === INDEX_VERSION && index.issues ? index : emptyIndex();
+  } catch (error) {
+    core.warning(`Failed to read ${INDEX_FILE}, rebuilding it: ${error}`);
+    return emptyIndex();
+  }
+}
+
+/**
+ * Add the issues only another workspace's index has. The older sync time
+ * is kept, so the next sync fetches whatever either run missed.
+ */
+export function mergeIssueIndex(fromPath: string, intoPath: string): void {
+  if (!fs.existsSync(path.join(fromPath, INDEX_FILE))) return;
+  const theirs = loadIssueIndex(fromPath);
+  const ours = loadIssueIndex(intoPath);
+  for (const [key, issue] of Object.entries(theirs.issues)) {
+    if (!Object.hasOwn(ours.issues, key)) ours.issues[key] = issue;
+  }
+  const synced = [ours.syncedAt, theirs.syncedAt].filter((t): t is string => !!t).sort();
+  ours.syncedAt = synced[0] ?? null;
+  fs.writeFileSync(path.join(intoPath, INDEX_FILE), JSON.stringify(ours));
+}
+
+/**
+ * Bring the workspace's issue index up to date. The first sync fetches
+ * open issues and recently closed ones; later syncs only fetch issues
+ * updated since the previous one. Closed issues older than `closedDays`
+ * are dropped.
+ */
+export async function updateIssueIndex(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  workspacePath: string,
+  options: DuplicateOptions = {}
+): Promise<IssueIndex> {
+  const index = loadIssueIndex(workspacePath);
+  const cutoff = new Date(Date.now() - (options.closedDays ?? 90) * 24 * 60 * 60 * 1000).toISOString();
+  const maxIssues = options.maxIssues ?? 1000;
+  const startedAt = new Date().toISOString();
+
+  const fetchIssues = async (params: { state: 'open' | 'closed' | 'all'; since?: string }) => {
+    let count = 0;
+    return octokit.paginate(
+      octokit.rest.issues.listForRepo,
+      { owner, repo, ...params, sort: 'updated', direction: 'desc', per_page: 100 },
+      (response, done) => {
+        count += response.data.length;
+        if (count >= maxIssues) done();
+        return response.data;
+      }
+    );
+  };
+
+  const fetched = index.syncedAt
+    ? await fetchIssues({ state: 'all', since: index.syncedAt })
+    : [...await fetchIssues({ state: 'open' }), ...await fetchIssues({ state: 'closed', since: cutoff })];
+
+  let updated = 0;
+  for (const issue of fetched) {
+    if (issue.pull_request) continue;
+    const key = String(issue.number);
+    if (issue.state === 'closed' && issue.closed_at && issue.closed_at < cutoff) {
+      delete index.issues[key];
+      continue;
+    }
+    index.issues[key] = {
+      title: issue.title,
+      state: issue.state === 'closed' ? 'closed' : 'open',
+      closedAt: issue.closed_at ?? null,
+      ...termFrequencies(issue.title, issue.body || ''),
+    };
+    updated++;
+  }
+
+  for (const [key, issue] of Object.entries(index.issues)) {
+    if (issue.state === 'closed' && issue.closedAt && issue.closedAt < cutoff) {
+      delete index.issues[key];
+    }
+  }
+
+  index.syncedAt = startedAt;
+  try {
+    fs.mkdirSync(workspacePath, { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, INDEX_FILE), JSON.stringify(index));
+  } catch (error) {
+    core.warning(`Failed to write ${INDEX_FILE}: ${error}`);
+  }
+  core.info(`Issue index: ${Object.keys(index.issues).length} issues (${updated} updated)`);
+  return index;
+}
+
+/**
+ * Rank indexed issues by BM25 similarity to an issue's title and body.
+ * Scores are divided by the issue's score against itself, so they are
+ * comparable across queries.
+ */
+export function findSimilarIssues(
+  index: IssueIndex,
+  issue: { number?: number; title: string; body?: string | null },
+  options: DuplicateOptions = {}
+): DuplicateCandidate[] {
+  const entries = Object.entries(index.issues).filter(([key]) => key !== String(issue.number));
+  if (entries.length === 0) return [];
+
+  const query = termFrequencies(issue.title, issue.body || '');
+  const queryTerms = Object.keys(query.terms);
+  if (queryTerms.length === 0) return [];
+
+  const docCount = entries.length;
+  const avgLength = entries.reduce((sum, [, doc]) => sum + doc.length, 0) / docCount || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = entries.filter(([, doc]) => termCount(doc, term) > 0).length;
+    return [term, Math.log(1 + (docCount - df + 0.5) / (df + 0.5))];
+  }));
+
+  const bm25 = (doc: { terms: Record<string, number>; length: number }) => queryTerms.reduce((score, term) => {
+    const tf = termCount(doc, term);
+    if (tf === 0) return score;
+    return score + idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+  }, 0);
+
+  const selfScore = bm25(query);
+  if (selfScore <= 0) return [];
+
+  return entries
+    .map(([key, doc]) => ({ number: Number(key), title: doc.title, state: doc.state, score: bm25(doc) / selfScore }))
+    .filter(c => c.score >= (options.minScore ?? 0.3))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxCandidates ?? 3);
+}
+
+const formatCandidate = (c: DuplicateCandidate) => `#${c.number} ${c.title} (${c.state}, ${Math.round(Math.min(c.score, 1) * 100)}% similar)`;
+
+/**
+ * Prompt section listing likely duplicates of a new issue
+ */
+export function buildDuplicatesSection(candidates: DuplicateCandidate[]): PromptSection {
+  return {
+    id: 'duplicates',
+    content: `## Possible Duplicates\n\nThese existing issues are textually similar to the new one. Check whether any of them is really the same problem, and if so, say so and link it:\n\n${candidates.map(c => `- ${formatCandidate(c)}`).join('\n')}`,
+    priority: SECTION_PRIORITY.duplicates,
+    droppable: true
+  };
+}
+
+/**
+ * Footer listing the candidates under the bot's reply
+ */
+export function formatDuplicateCandidates(candidates: DuplicateCandidate[]): string {
+  if (candidates.length === 0) return '';
+  return `**Possibly related issues**\n\n${candidates.map(c => `- ${formatCandidate(c)}`).join('\n')}`;
+}
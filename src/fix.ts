@@ -0,0 +1,260 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { matchesAnyGlob } from './glob';
+import { PromptSection, requestSection } from './prompt';
+
+const execFileAsync = promisify(execFile);
+
+// Repository roles from most to least access
+const PERMISSION_RANK = ['admin', 'maintain', 'write', 'triage', 'read', 'none'] as const;
+
+export type RepoPermission = Exclude<typeof PERMISSION_RANK[number], 'none'>;
+
+export interface FixOptions {
+  // Globs of files the agent may change (empty: any file)
+  allow?: string[];
+  // Globs of files the agent must not change
+  deny?: string[];
+  // Added plus removed lines over all files
+  maxChangedLines?: number;
+  // Lowest repository role that may start a fix
+  minPermission?: RepoPermission;
+}
+
+export interface FileChange {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface FixResult {
+  changes: FileChange[];
+  // Why the changes were not pushed
+  violations: string[];
+  pullRequest?: { number: number; url: string; created: boolean };
+}
+
+export const DEFAULT_MAX_CHANGED_LINES = 500;
+
+// The agent's own workspace lives in the checkout and is never committed
+const WORKSPACE_DIR = '.openclaw';
+const BOT_NAME = 'github-actions[bot]';
+const BOT_EMAIL = '41898282+github-actions[bot]@users.noreply.github.com';
+
+/**
+ * Branch the fix for an issue is pushed to
+ */
+export function getFixBranch(issueNumber: number): string {
+  return `openclaw/issue-${issueNumber}`;
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Whether a user may start a fix. Fixes push with a write token, so the
+ * user who asks (commenter or labeler) needs `minPermission` on the repo.
+ */
+export async function canStartFix(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  username: string,
+  minPermission: RepoPermission = 'write'
+): Promise<boolean> {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    // role_name includes maintain and triage; permission only has admin/write/read/none
+    const role = PERMISSION_RANK.find(r => r === data.role_name) ?? PERMISSION_RANK.find(r => r === data.permission) ?? 'none';
+    return PERMISSION_RANK.indexOf(role) <= PERMISSION_RANK.indexOf(minPermission);
+  } catch (error) {
+    core.warning(`Could not check @${username}'s permission: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Commit the checkout is at, recorded before the agent runs so its own
+ * commits can't bypass the checks
+ */
+export async function getBaseSha(workdir: string): Promise<string> {
+  return (await git(['rev-parse', 'HEAD'], workdir)).trim();
+}
+
+/**
+ * Prompt asking the agent to fix an issue by editing the checked-out
+ * working tree
+ */
+export function buildFixSections(
+  issue: { number: number; title: string; body?: string | null; html_url?: string },
+  author: string,
+  workdir: string,
+  options: FixOptions = {},
+  instructions?: string
+): PromptSection[] {
+  const maxLines = options.maxChangedLines ?? DEFAULT_MAX_CHANGED_LINES;
+  const rules = [
+    'Keep the change focused on this issue; don\'t reformat or refactor unrelated code.',
+    `Don't commit, push or switch branches. The action commits your changes to \`${getFixBranch(issue.number)}\` and opens a draft pull request.`,
+    `Don't touch \`${WORKSPACE_DIR}/\`; it is your workspace, not part of the change.`,
+    `Stay under ${maxLines} changed lines in total, or nothing is pushed.`,
+  ];
+  if (options.allow && options.allow.length > 0) {
+    rules.push(`Only change files matching: ${options.allow.map(g => `\`${g}\``).join(', ')}.`);
+  }
+  if (options.deny && options.deny.length > 0) {
+    rules.push(`Never change files matching: ${options.deny.map(g => `\`${g}\``).join(', ')}.`);
+  }
+
+  return [requestSection(`@${author} asked you to fix issue #${issue.number}.
+
+Title: ${issue.title}
+URL: ${issue.html_url}
+
+${issue.body || '(no description)'}
+${instructions ? `\nThey also said: ${instructions}\n` : ''}
+---
+
+The repository is checked out at \`${workdir}\`. Make the fix by editing files there directly:
+
+${rules.map(r => `- ${r}`).join('\n')}
+
+If the issue can't be fixed with a code change, or needs more information, change nothing and explain why.
+
+When you're done, reply with a short summary of what you changed and why. It becomes the pull request description.`)];
+}
+
+/**
+ * Stage everything the agent changed since `baseSha` (outside its
+ * workspace) and list the changed files with their line counts. Commits
+ * the agent made are undone first, keeping their changes staged.
+ */
+export async function collectChanges(workdir: string, baseSha: string): Promise<FileChange[]> {
+  const exclude = `:(exclude)${WORKSPACE_DIR}`;
+  await git(['reset', '--soft', baseSha], workdir);
+  await git(['add', '-A', '--', '.', exclude], workdir);
+  const numstat = await git(['-c', 'core.quotePath=false', 'diff', '--cached', '--numstat', '--no-renames', baseSha, '--', '.', exclude], workdir);
+  return numstat
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [additions, deletions, ...rest] = line.split('\t');
+      // Binary files have no line counts ("-")
+      return { path: rest.join('\t'), additions: parseInt(additions, 10) || 0, deletions: parseInt(deletions, 10) || 0 };
+    });
+}
+
+/**
+ * Reasons the changes can't be pushed: files outside the allow list or
+ * inside the deny list, or too many changed lines
+ */
+export function checkChanges(changes: FileChange[], options: FixOptions = {}): string[] {
+  const violations: string[] = [];
+  const allow = options.allow || [];
+  const deny = options.deny || [];
+
+  for (const change of changes) {
+    if (allow.length > 0 && !matchesAnyGlob(change.path, allow)) {
+      violations.push(`\`${change.path}\` is not in the allowed paths`);
+    } else if (matchesAnyGlob(change.path, deny)) {
+      violations.push(`\`${change.path}\` is in the denied paths`);
+    }
+  }
+
+  const maxLines = options.maxChangedLines ?? DEFAULT_MAX_CHANGED_LINES;
+  const changedLines = changes.reduce((sum, c) => sum + c.additions + c.deletions, 0);
+  if (changedLines > maxLines) {
+    violations.push(`${changedLines} changed lines exceed the limit of ${maxLines}`);
+  }
+  return violations;
+}
+
+/**
+ * Commit the agent's changes on top of `baseSha` to `openclaw/issue-<n>`,
+ * push it and open a draft PR that links the issue (or reuse the open one
+ * for the branch). Nothing is pushed when there are no changes or they
+ * break the limits.
+ */
+export async function publishFix(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  issue: { number: number; title: string },
+  summary: string,
+  workdir: string,
+  baseSha: string,
+  options: FixOptions = {}
+): Promise<FixResult> {
+  const changes = await collectChanges(workdir, baseSha);
+  if (changes.length === 0) {
+    core.info('Fix: the agent did not change any files');
+    return { changes, violations: [] };
+  }
+
+  const violations = checkChanges(changes, options);
+  if (violations.length > 0) {
+    core.warning(`Fix not pushed: ${violations.join('; ')}`);
+    return { changes, violations };
+  }
+
+  const branch = getFixBranch(issue.number);
+  const { data: repository } = await octokit.rest.repos.get({ owner, repo });
+  const base = repository.default_branch;
+
+  await git(['checkout', '-B', branch], workdir);
+  await git([
+    '-c', `user.name=${BOT_NAME}`,
+    '-c', `user.email=${BOT_EMAIL}`,
+    'commit', '--no-verify',
+    '-m', `Fix #${issue.number}: ${issue.title}`,
+    '-m', `Proposed by OpenClaw for #${issue.number}.`
+  ], workdir);
+  // Re-running fix on the same issue replaces the previous attempt
+  // --no-verify: hooks in .git/ are not part of the checked change
+  await git(['push', '--no-verify', '--force', 'origin', `HEAD:refs/heads/${branch}`], workdir);
+  core.info(`Pushed ${changes.length} changed files to ${branch}`);
+
+  const body = `${summary.trim() || '_No summary._'}\n\nCloses #${issue.number}`;
+  const { data: open } = await octokit.rest.pulls.list({ owner, repo, head: `${owner}:${branch}`, state: 'open' });
+  if (open.length > 0) {
+    await octokit.rest.pulls.update({ owner, repo, pull_number: open[0].number, body });
+    core.info(`Updated draft PR #${open[0].number}`);
+    return { changes, violations, pullRequest: { number: open[0].number, url: open[0].html_url, created: false } };
+  }
+
+  const { data: pr } = await octokit.rest.pulls.create({
+    owner,
+    repo,
+    head: branch,
+    base,
+    title: `Fix #${issue.number}: ${issue.title}`,
+    body,
+    draft: true
+  });
+  core.info(`Opened draft PR #${pr.number}`);
+  return { changes, violations, pullRequest: { number: pr.number, url: pr.html_url, created: true } };
+}
+
+/**
+ * Comment text describing the outcome of a fix
+ */
+export function formatFixResult(result: FixResult): string {
+  const added = result.changes.reduce((sum, c) => sum + c.additions, 0);
+  const removed = result.changes.reduce((sum, c) => sum + c.deletions, 0);
+  const stats = `${result.changes.length} file${result.changes.length === 1 ? '' : 's'}, +${added} −${removed}`;
+
+  if (result.changes.length === 0) {
+    return '_No files were changed, so no pull request was opened._';
+  }
+  if (result.violations.length > 0) {
+    return `⚠️ The changes (${stats}) were not pushed:\n\n${result.violations.map(v => `- ${v}`).join('\n')}`;
+  }
+  if (result.pullRequest) {
+    return `${result.pullRequest.created ? 'Opened' : 'Updated'} draft PR #${result.pullRequest.number} with the changes (${stats}).`;
+  }
+  return '';
+}
@@ -32,6 +32,24 @@ const DEFAULT_MODELS: Record<string, string> = {
   openrouter: 'openrouter/anthropic/claude-sonnet-4-5',
 };
 
+// Context window (tokens) by model prefix, longest match wins
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'anthropic/claude': 200000,
+  'xai/grok-3': 131072,
+  'xai/grok-4': 256000,
+  'openai/gpt-4.1': 1047576,
+  'openai/gpt-4o': 128000,
+  'openai/o3': 200000,
+  'openai/o4': 200000,
+  'google/gemini-2.5': 1048576,
+  'groq/llama-3.3': 131072,
+  'openrouter/anthropic/claude': 200000,
+  'cerebras/': 131072,
+  'mistral/': 131072,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
 let gatewayProcess: ChildProcess | null = null;
 
 export function resolveModel(provider: string, model: string): string {
@@ -44,6 +62,16 @@ export function resolveModel(provider: string, model: string): string {
   return DEFAULT_MODELS[provider] || `${provider}/default`;
 }
 
+/**
+ * Context window of a resolved model (provider/model), in tokens
+ */
+export function getContextWindow(resolvedModel: string): number {
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(p => resolvedModel.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
 export async function startGateway(config: GatewayConfig): Promise<void> {
   core.info('Starting OpenClaw Gateway...');
 
@@ -71,7 +99,7 @@ export async function startGateway(config: GatewayConfig): Promise<void> {
     providersConfig[config.provider] = {
       api: 'openai-responses',
       baseUrl,
-      models: [{ id: resolvedModel.replace(`${config.provider}/`, ''), name: resolvedModel.replace(`${config.provider}/`, ''), contextWindow: 131072, maxTokens: 32768 }]
+      models: [{ id: resolvedModel.replace(`${config.provider}/`, ''), name: resolvedModel.replace(`${config.provider}/`, ''), contextWindow: getContextWindow(resolvedModel), maxTokens: 32768 }]
     };
   }
 
@@ -0,0 +1,54 @@
+/**
+ * Minimal gitignore-style glob matching, used for review rules, ignore
+ * lists and CODEOWNERS:
+ * - `*` matches within a path segment, `?` one character, `**` any depth
+ * - a pattern without a slash matches at any depth (`*.lock`)
+ * - a leading `/` anchors the pattern to the repository root
+ * - a pattern whose last segment has no `*` also matches everything in
+ *   the directory it names (`docs`), but `docs/*` only matches direct
+ *   children, as in CODEOWNERS
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim();
+  const anchored = glob.startsWith('/');
+  if (anchored) glob = glob.substring(1);
+  if (glob.endsWith('/')) glob = glob.slice(0, -1);
+  if (!anchored && !glob.includes('/')) glob = `**/${glob}`;
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const lastSegment = glob.substring(glob.lastIndexOf('/') + 1);
+  return new RegExp(`^${source}${lastSegment.includes('*') ? '' : '(?:/.*)?'}$`);
+}
+
+/**
+ * Whether a repository-relative path matches a glob
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath.replace(/^\/+/, ''));
+}
+
+/**
+ * Whether a path matches any of the globs
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some(p => matchesGlob(filePath, p));
+}
@@ -5,16 +5,44 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { restoreWorkspace, saveWorkspace } from './workspace';
+import { restoreWorkspace, saveWorkspace, loadThreadRecord, saveThreadRecord, ThreadRecord } from './workspace';
 import { parseTrigger } from './triggers';
-import { startGateway, waitForReady, stopGateway, resolveModel } from './gateway';
-import { OpenClawClient } from './client';
-import { parseReviewResponse, postPRReview } from './review';
+import { startGateway, waitForReady, stopGateway, resolveModel, getContextWindow } from './gateway';
+import { OpenClawClient, AgentAbortedError, AgentTimeoutError } from './client';
+import { parseReviewResponse, parseStructuredReview, buildReviewRepairPrompt, postPRReview, splitReviewPasses, mergeReviews, applyReviewPolicy, ParsedReview } from './review';
+import { parseLabelResponse } from './commands';
+import { loadConfig } from './context';
+import { resolveRunLimits } from './limits';
+import { formatCodeOwnersAreas } from './codeowners';
+import { matchesAnyGlob } from './glob';
+import { publishReviewCheck } from './checks';
+import { publishFix, formatFixResult, getBaseSha } from './fix';
+import { parseTriageResponse, getTriageLabels, formatNeedsInfoComment } from './triage';
+import { updateIssueIndex, findSimilarIssues, buildDuplicatesSection, formatDuplicateCandidates, DuplicateCandidate } from './duplicates';
+import { buildThreadMemorySection, buildMemoryUpdateSection, parseMemoryUpdate, updateThreadRecord, ThreadMemoryUpdate } from './threads';
+import { buildActionsSection, parseActionRequests, runActionRequests, formatActionResults, ISSUE_ACTION_TYPES } from './actions';
+import { postBotComment, getStickyKey } from './comments';
+import { ProgressComment } from './progress';
+import { ToolCall, formatToolActivity, writeActivitySummary } from './activity';
+import { evaluateTriggerPolicy } from './policy';
+import { getSessionKey, fetchThreadHistory, formatThreadHistory } from './session';
+import { assemblePrompt, getPromptBudget, logPromptBudget, PromptSection, SECTION_PRIORITY } from './prompt';
 
 const execAsync = promisify(exec);
 
+// Cancels the agent run when the job is cancelled (e.g. superseded by a
+// newer run with cancel-in-progress) or is about to hit the hard timeout
+const runAbort = new AbortController();
+
+// Notes left in place of an answer when the run is aborted
+const ABORT_NOTES: Record<string, string> = {
+  superseded: '⏹️ Superseded: this run was cancelled, most likely by a newer event on this thread. No answer was posted.',
+  timeout: '⏱️ Timed out: the agent did not finish before the action\'s time limit.',
+};
+
 async function run(): Promise<void> {
   let client: OpenClawClient | null = null;
+  let progress: ProgressComment | null = null;
 
   try {
     // Get inputs — provider-agnostic
@@ -33,6 +61,53 @@ async function run(): Promise<void> {
     const context = github.context;
     const repo = `${context.repo.owner}/${context.repo.repo}`;
 
+    // Check the trigger policy before doing anything expensive
+    const config = loadConfig();
+    const limits = resolveRunLimits(config.limits, {
+      hardTimeout: core.getInput('hard_timeout'),
+      agentTimeout: core.getInput('agent_timeout'),
+      requestTimeout: core.getInput('request_timeout'),
+      gatewayReadyTimeout: core.getInput('gateway_ready_timeout'),
+    });
+    armHardTimeout(limits.hardTimeoutMs);
+
+    const decision = evaluateTriggerPolicy(config, context);
+    if (!decision.allowed) {
+      core.info(`Skipping event: ${decision.reason}`);
+      return;
+    }
+
+    // Parse trigger first: ignored events and direct replies don't need the agent
+    const trigger = await parseTrigger(githubToken);
+    core.info(`Trigger: ${trigger.type}${trigger.command ? ` (command: ${trigger.command})` : ''}`);
+
+    if (trigger.skip) {
+      core.info(`Skipping event: ${trigger.skip}`);
+      return;
+    }
+
+    // Comments for sticky trigger types edit the bot's previous one
+    const stickyKey = getStickyKey(config.comments?.sticky, trigger.type, trigger.command);
+
+    if (trigger.reply !== undefined) {
+      if (trigger.issueNumber) {
+        const octokit = github.getOctokit(githubToken);
+        await postBotComment(octokit, context.repo.owner, context.repo.repo, trigger.issueNumber, `🤖 **OpenClaw Bot**\n\n${trigger.reply}`, stickyKey, config.triggers?.botLogin);
+        core.info(`Posted reply to #${trigger.issueNumber}`);
+      }
+      return;
+    }
+
+    // Placeholder comment that shows the agent's progress until it answers.
+    // Reviews are posted as PR reviews, so they don't get one.
+    if (config.comments?.progress && trigger.issueNumber && githubToken && trigger.posting !== 'review') {
+      const intervalMs = (config.comments.progressInterval ?? 5) * 1000;
+      progress = new ProgressComment(github.getOctokit(githubToken), context.repo.owner, context.repo.repo, trigger.issueNumber, intervalMs);
+      await progress.start();
+    }
+
+    core.info(`Prompt sections: ${[...trigger.contextSections, ...trigger.eventSections].map(s => s.id).join(', ')}`);
+
     fs.mkdirSync(workspacePath, { recursive: true });
 
     // Get npm global prefix and set up paths
@@ -125,62 +200,273 @@ async function run(): Promise<void> {
     }
 
     // Restore workspace from cache
-    await restoreWorkspace(workspacePath, repo);
+    const workspace = await restoreWorkspace(workspacePath, repo);
 
     // Start Gateway
     await startGateway({ provider, apiKey, model, workspacePath });
-    await waitForReady();
-
-    // Parse trigger
-    const trigger = await parseTrigger(githubToken);
-    core.info(`Trigger: ${trigger.type}`);
-    core.info(`Message: ${trigger.message.substring(0, 200)}...`);
+    await waitForReady(limits.gatewayReadyTimeoutMs);
 
     // Connect and send message
-    client = new OpenClawClient();
+    client = new OpenClawClient({
+      agentTimeoutMs: limits.agentTimeoutMs,
+      requestTimeoutMs: limits.requestTimeoutMs,
+      connectTimeoutMs: limits.gatewayReadyTimeoutMs
+    });
     await client.connect();
-    let response: string;
+
+    // One agent session per issue/PR. If the Gateway lost it (fresh runner),
+    // rebuild the conversation from the thread's comments.
+    const sessionKey = getSessionKey(repo, trigger.issueNumber);
+    const sections: PromptSection[] = [...trigger.contextSections];
+    if (trigger.issueNumber && githubToken && !(await client.hasSessionHistory(sessionKey))) {
+      const octokit = github.getOctokit(githubToken);
+      const history = (await fetchThreadHistory(octokit, context.repo.owner, context.repo.repo, trigger.issueNumber))
+        .filter(m => m.id !== context.payload.comment?.id && m.id !== progress?.id && !trigger.threadCommentIds?.includes(m.id));
+      const transcript = formatThreadHistory(history);
+      if (transcript) {
+        core.info(`Session ${sessionKey} not found, injecting ${history.length} earlier comments`);
+        sections.push({ id: 'history', content: transcript, priority: SECTION_PRIORITY.history, droppable: true });
+      }
+    }
+
+    // Existing issues similar to a new one, from the index kept in the workspace
+    let duplicates: DuplicateCandidate[] = [];
+    if (trigger.type === 'issue_created' && context.payload.action === 'opened' && config.duplicates?.enabled !== false && githubToken) {
+      try {
+        const octokit = github.getOctokit(githubToken);
+        const index = await updateIssueIndex(octokit, context.repo.owner, context.repo.repo, workspacePath, config.duplicates);
+        const issue = context.payload.issue!;
+        duplicates = findSimilarIssues(index, { number: issue.number, title: issue.title, body: issue.body }, config.duplicates);
+        if (duplicates.length > 0) {
+          core.info(`Possible duplicates: ${duplicates.map(d => `#${d.number}`).join(', ')}`);
+          sections.push(buildDuplicatesSection(duplicates));
+        }
+      } catch (error) {
+        core.warning(`Failed to look for duplicate issues: ${error}`);
+      }
+    }
+
+    // The bot's record of this thread and of related ones. Reviews reply
+    // with JSON only, so they can't update it themselves.
+    const rememberThread = config.threadMemory?.enabled !== false && !!trigger.issueNumber;
+    let threadRecord: ThreadRecord | null = null;
+    if (rememberThread) {
+      threadRecord = loadThreadRecord(workspacePath, trigger.issueNumber!);
+      const relatedRecords = [...new Set([...(trigger.relatedNumbers || []), ...duplicates.map(d => d.number), ...(threadRecord?.related || [])])]
+        .filter(n => n !== trigger.issueNumber)
+        .map(n => loadThreadRecord(workspacePath, n))
+        .filter((r): r is ThreadRecord => !!r)
+        .slice(0, config.threadMemory?.maxRelated ?? 3);
+      const memorySection = buildThreadMemorySection(threadRecord, relatedRecords);
+      if (memorySection) {
+        core.info(`Thread memory: ${threadRecord ? `#${trigger.issueNumber}` : 'no record'}, ${relatedRecords.length} related`);
+        sections.push(memorySection);
+      }
+      // Reviews, triage and labels need replies in a fixed format, so only
+      // free-form answers end with a memory block
+      if (!trigger.posting || trigger.posting === 'comment' || trigger.posting === 'fix') {
+        sections.push(buildMemoryUpdateSection(trigger.issueNumber!));
+      }
+    }
+
+    // Operations the agent may request besides answering. Reviews reply
+    // with JSON only, so they don't get them.
+    const allowedActions = (config.actions?.allow || []).filter(a => ISSUE_ACTION_TYPES.includes(a));
+    if (allowedActions.length > 0 && trigger.issueNumber && trigger.posting !== 'review') {
+      sections.push(buildActionsSection(allowedActions));
+    }
+
+    // Fit the prompt to the model's context window. PR reviews whose diff
+    // doesn't fit are split into file-grouped passes, one agent turn each.
+    const budget = getPromptBudget(getContextWindow(resolvedModel), config.prompt?.maxTokens);
+    const passes = trigger.posting === 'review' && trigger.prFiles
+      ? splitReviewPasses(sections, trigger.eventSections, trigger.reviewFiles || trigger.prFiles, budget, config.review?.rules)
+      : [{ sections: trigger.eventSections, files: trigger.prFiles || [] }];
+    if (passes.length > 1) {
+      core.info(`Large PR: reviewing ${trigger.prFiles?.length} files in ${passes.length} passes`);
+    }
+
+    const responses: string[] = [];
+    const reviews: ParsedReview[] = [];
+
+    // Fixes are checked and committed against the commit the agent started from
+    const fixBaseSha = trigger.posting === 'fix' ? await getBaseSha(process.cwd()) : '';
+
+    // Follow the run: tool calls for the activity log, streamed text for the placeholder
+    const activity: ToolCall[] = [];
+    let streamed = '';
+    client
+      .on('toolStart', call => {
+        activity.push(call);
+        progress?.update({ text: streamed, status: `Running ${call.name}` });
+      })
+      .on('assistantDelta', delta => {
+        streamed += delta.text;
+        progress?.update({ text: streamed });
+      })
+      .on('lifecycle', event => {
+        if (event.phase === 'start') streamed = '';
+      });
     try {
-      response = await client.sendMessage(trigger.message);
-      core.info(`Response: ${response.length} chars`);
+      for (const [i, pass] of passes.entries()) {
+        const prompt = assemblePrompt([...sections, ...pass.sections], budget);
+        logPromptBudget(prompt);
+        // Separate sessions per pass, so earlier chunks don't crowd out later ones
+        const passSessionKey = passes.length > 1 ? `${sessionKey}/review-${i + 1}` : sessionKey;
+        const passResponse = await client.sendMessage(prompt.text, passSessionKey, { signal: runAbort.signal });
+        core.info(`Response${passes.length > 1 ? ` (pass ${i + 1}/${passes.length})` : ''}: ${passResponse.length} chars`);
+        responses.push(passResponse);
+
+        if (trigger.posting === 'review') {
+          // Reviews must be valid JSON; give the agent one chance to fix its
+          // reply before falling back to the markdown format
+          let structured = parseStructuredReview(passResponse);
+          if (structured.errors.length > 0) {
+            core.warning(`Review did not match the schema: ${structured.errors.join('; ')}`);
+            const repaired = parseStructuredReview(await client.sendMessage(buildReviewRepairPrompt(structured.errors), passSessionKey, { signal: runAbort.signal }));
+            if (repaired.review) {
+              structured = repaired;
+            }
+            if (structured.errors.length > 0) {
+              core.warning(`Review still invalid after repair: ${structured.errors.join('; ')}`);
+            }
+          }
+          reviews.push(structured.review ?? parseReviewResponse(passResponse));
+        }
+      }
     } catch (sendError) {
+      await writeActivitySummary(activity);
+
+      // Cancelled runs never post a stale answer. A superseded run only
+      // updates its placeholder; a timeout is always reported, with
+      // whatever the agent had written so far.
+      if (sendError instanceof AgentAbortedError || sendError instanceof AgentTimeoutError) {
+        const reason = sendError instanceof AgentAbortedError ? sendError.reason : 'timeout';
+        core.warning(reason === 'timeout' ? `Agent run timed out: ${sendError.message}` : `Agent run cancelled (${reason})`);
+        let note = `🤖 **OpenClaw Bot**\n\n${ABORT_NOTES[reason] || ABORT_NOTES.superseded}`;
+        if (reason === 'timeout' && sendError.partial.trim()) {
+          note += `\n\n**Partial answer:**\n\n${sendError.partial.trim()}`;
+        }
+        try {
+          const updated = await progress?.finish(note);
+          if (!updated && reason === 'timeout' && trigger.issueNumber && githubToken) {
+            await github.getOctokit(githubToken).rest.issues.createComment({
+              owner: context.repo.owner,
+              repo: context.repo.repo,
+              issue_number: trigger.issueNumber,
+              body: note
+            });
+          }
+        } catch (postError) {
+          core.error(`Failed to post cancellation note: ${postError}`);
+        }
+        throw sendError;
+      }
+
       const errorMsg = sendError instanceof Error ? sendError.message : String(sendError);
       core.error(`Agent error: ${errorMsg}`);
       // Post the error to the issue/PR if possible
       if (trigger.issueNumber && githubToken) {
         const octokit = github.getOctokit(githubToken);
+        const body = `🤖 **OpenClaw Bot**\n\n⚠️ An error occurred while processing this event:\n\n\`\`\`\n${errorMsg}\n\`\`\``;
         try {
-          await octokit.rest.issues.createComment({
-            owner: context.repo.owner,
-            repo: context.repo.repo,
-            issue_number: trigger.issueNumber,
-            body: `🤖 **OpenClaw Bot**\n\n⚠️ An error occurred while processing this event:\n\n\`\`\`\n${errorMsg}\n\`\`\``
-          });
+          if (!(await progress?.finish(body))) {
+            await octokit.rest.issues.createComment({
+              owner: context.repo.owner,
+              repo: context.repo.repo,
+              issue_number: trigger.issueNumber,
+              body
+            });
+          }
         } catch (postError) {
           core.error(`Failed to post error comment: ${postError}`);
         }
       }
       throw sendError;
     }
+    const response = responses.join('\n\n');
+
+    // What the agent did, for the job summary and the posted answer
+    await writeActivitySummary(activity);
+    const activitySection = config.comments?.activity !== false ? formatToolActivity(activity) : '';
+    const withActivity = (body: string) => activitySection ? `${body}\n\n${activitySection}` : body;
 
     // Post response to GitHub
-    if (trigger.issueNumber && !response.includes('HEARTBEAT_OK')) {
+    if (runAbort.signal.aborted) {
+      core.warning('Run was cancelled after the agent answered; not posting');
+      await progress?.discard();
+    } else if (trigger.issueNumber && !response.includes('HEARTBEAT_OK')) {
       const octokit = github.getOctokit(githubToken);
+      const issueNumber = trigger.issueNumber;
+
+      // Take out the thread memory update, then run the GitHub operations
+      // requested in openclaw-actions blocks; the results go under the answer
+      let answerText = response;
+      let actionsFooter = '';
+      let memoryUpdate: ThreadMemoryUpdate | null = null;
+      if (trigger.posting !== 'review') {
+        const memory = parseMemoryUpdate(response);
+        memoryUpdate = memory.update;
+        const requested = parseActionRequests(memory.text);
+        answerText = requested.text;
+        const results = await runActionRequests(octokit, context.repo.owner, context.repo.repo, issueNumber, requested.actions, allowedActions);
+        actionsFooter = formatActionResults(results, requested.errors);
+      }
+
+      const footer = [actionsFooter, formatDuplicateCandidates(duplicates)].filter(Boolean).join('\n\n');
+
+      // What the bot said, for the thread record
+      let postedAnswer = '';
+
+      // The answer replaces the progress placeholder, unless it goes to a sticky comment
+      const postAnswer = async (answer: string) => {
+        postedAnswer = answer.replace(/^🤖 \*\*OpenClaw Bot\*\*\s*/, '');
+        const body = withActivity(footer ? `${answer}\n\n${footer}` : answer);
+        if (progress && !stickyKey && await progress.finish(body)) return;
+        await progress?.discard();
+        await postBotComment(octokit, context.repo.owner, context.repo.repo, issueNumber, body, stickyKey, config.triggers?.botLogin);
+      };
       
       // Handle PR reviews specially
-      if (trigger.type === 'pull_request' && trigger.prFiles) {
+      if (trigger.posting === 'review' && trigger.prFiles) {
         core.info('Parsing PR review response...');
         try {
-          const review = parseReviewResponse(response);
+          // Files in review.ignore never get comments, inline or in the
+          // summary, and don't count towards the verdict
+          const merged = mergeReviews(reviews, passes.map(p => p.files));
+          merged.comments = merged.comments.filter(c => !matchesAnyGlob(c.path, config.review?.ignore || []));
+          const review = applyReviewPolicy(merged, config.review);
+          if (trigger.codeOwners && trigger.codeOwners.length > 0) {
+            review.summary += `\n\n${formatCodeOwnersAreas(trigger.codeOwners)}`;
+          }
+          postedAnswer = `Review (${review.verdict.replace('_', ' ')}): ${review.summary}`;
+          review.summary = withActivity(review.summary);
+
+          // Check Run for branch protection, next to the PR review
+          if (config.review?.checkRun && trigger.headSha) {
+            try {
+              await publishReviewCheck(octokit, context.repo.owner, context.repo.repo, trigger.headSha, review, {
+                name: config.review.checkName,
+                failOn: config.review.checkFailOn,
+                earlierFindings: trigger.earlierFindings
+              });
+            } catch (error) {
+              core.warning(`Check run not published (does the workflow have checks: write?): ${error}`);
+            }
+          }
           core.info(`Parsed review: verdict=${review.verdict}, ${review.comments.length} inline comments`);
           
+          // Anchor inline comments only on files that were up for review,
+          // using their full PR patches (not review.ignore matches)
+          const reviewed = new Set((trigger.reviewFiles || trigger.prFiles).map(f => f.filename));
           await postPRReview(
             octokit,
             context.repo.owner,
             context.repo.repo,
             trigger.issueNumber,
             review,
-            trigger.prFiles
+            trigger.prFiles.filter(f => reviewed.has(f.filename)),
+            trigger.headSha
           );
           core.info(`Posted PR review to #${trigger.issueNumber}`);
         } catch (error) {
@@ -198,31 +484,134 @@ async function run(): Promise<void> {
             core.error(`Failed to post fallback comment: ${commentError}`);
           }
         }
+      } else if (trigger.posting === 'fix') {
+        // The agent edited the checkout; its changes go to a branch and a draft PR
+        let outcome: string;
+        try {
+          const result = await publishFix(
+            octokit,
+            context.repo.owner,
+            context.repo.repo,
+            { number: issueNumber, title: trigger.issueTitle || `Issue #${issueNumber}` },
+            answerText,
+            process.cwd(),
+            fixBaseSha,
+            config.fix
+          );
+          outcome = formatFixResult(result);
+        } catch (error) {
+          core.error(`Failed to publish fix: ${error}`);
+          outcome = `⚠️ The changes could not be pushed (does the workflow have \`contents: write\`?):\n\n\`\`\`\n${error}\n\`\`\``;
+        }
+        try {
+          await postAnswer(`🤖 **OpenClaw Bot**\n\n${outcome}${answerText ? `\n\n${answerText}` : ''}`);
+          core.info(`Posted fix result to #${issueNumber}`);
+        } catch (error) {
+          core.error(`Failed to post comment: ${error}`);
+        }
+      } else if (trigger.posting === 'triage') {
+        // Apply the classification's labels; only ask the author when info is missing
+        const available = trigger.availableLabels || [];
+        const triage = parseTriageResponse(answerText, available);
+        if (!triage) {
+          core.warning('Triage reply was not valid JSON; no labels applied');
+          await progress?.discard();
+        } else {
+          core.info(`Triage: type=${triage.type ?? '-'}, area=${triage.areas.join(', ') || '-'}, priority=${triage.priority ?? '-'}, missing info: ${triage.missingInfo.length}`);
+          if (triage.unknownLabels.length > 0) {
+            core.warning(`Ignored labels that don't exist: ${triage.unknownLabels.join(', ')}`);
+          }
+          try {
+            const labels = getTriageLabels(triage, available, config.triage);
+            if (labels.length > 0) {
+              await octokit.rest.issues.addLabels({
+                owner: context.repo.owner,
+                repo: context.repo.repo,
+                issue_number: issueNumber,
+                labels
+              });
+              core.info(`Applied labels to #${issueNumber}: ${labels.join(', ')}`);
+            }
+            if (triage.missingInfo.length > 0 && config.triage?.needsInfoComment !== false) {
+              const author = context.payload.issue!.user.login;
+              await postAnswer(`🤖 **OpenClaw Bot**\n\n${formatNeedsInfoComment(triage.missingInfo, author, config.triage?.needsInfoTemplate)}`);
+            } else if (footer) {
+              // Report the requested actions and possible duplicates even when nothing else needs saying
+              await postAnswer(`🤖 **OpenClaw Bot**\n\n${triage.summary}`);
+            } else {
+              await progress?.discard();
+            }
+          } catch (error) {
+            core.error(`Failed to apply triage: ${error}`);
+          }
+        }
+      } else if (trigger.posting === 'labels') {
+        // Apply only labels that exist in the repo, then explain in a comment
+        const available = new Set(trigger.availableLabels || []);
+        const labels = parseLabelResponse(response).filter(l => available.has(l));
+        try {
+          if (labels.length > 0) {
+            await octokit.rest.issues.addLabels({
+              owner: context.repo.owner,
+              repo: context.repo.repo,
+              issue_number: trigger.issueNumber,
+              labels
+            });
+            core.info(`Applied labels to #${trigger.issueNumber}: ${labels.join(', ')}`);
+          }
+          const explanation = answerText.replace(/^\s*LABELS:.*$/im, '').trim();
+          const summary = labels.length > 0
+            ? `Applied labels: ${labels.map(l => `\`${l}\``).join(', ')}`
+            : 'No matching labels found.';
+          await postAnswer(`🤖 **OpenClaw Bot**\n\n${summary}${explanation ? `\n\n${explanation}` : ''}`);
+        } catch (error) {
+          core.error(`Failed to apply labels: ${error}`);
+        }
       } else {
         // Regular issue/comment response
         try {
-          const body = response.trim()
-            ? `🤖 **OpenClaw Bot**\n\n${response}`
+          const body = answerText
+            ? `🤖 **OpenClaw Bot**\n\n${answerText}`
             : `🤖 **OpenClaw Bot**\n\n_No response was generated._`;
-          await octokit.rest.issues.createComment({
-            owner: context.repo.owner,
-            repo: context.repo.repo,
-            issue_number: trigger.issueNumber,
-            body
-          });
+          await postAnswer(body);
           core.info(`Posted to #${trigger.issueNumber}`);
         } catch (error) {
           core.error(`Failed to post comment: ${error}`);
         }
       }
+
+      // Remember this run for the next event on the thread or a related one
+      if (rememberThread) {
+        try {
+          const thread = context.payload.issue ?? context.payload.pull_request;
+          const record = updateThreadRecord(
+            threadRecord,
+            {
+              number: issueNumber,
+              isPR: !!trigger.isPR,
+              title: thread?.title ?? trigger.issueTitle ?? threadRecord?.title ?? '',
+              state: thread?.merged ? 'merged' : thread?.state ?? threadRecord?.state ?? 'open'
+            },
+            memoryUpdate,
+            postedAnswer ? { trigger: trigger.command ? `${trigger.command} command` : trigger.type.replace('_', ' '), text: postedAnswer } : null,
+            [...(trigger.relatedNumbers || []), ...duplicates.map(d => d.number)],
+            config.threadMemory
+          );
+          saveThreadRecord(workspacePath, record);
+          core.info(`Updated thread record #${issueNumber}: ${record.answers.length} answers, ${record.decisions.length} decisions`);
+        } catch (error) {
+          core.warning(`Failed to update thread record: ${error}`);
+        }
+      }
     } else if (response.includes('HEARTBEAT_OK')) {
+      await progress?.discard();
       core.info('Heartbeat OK — no action needed');
     } else {
       core.info('No issue/PR to post to — response logged above');
     }
 
     // Save workspace before cleanup (in finally block)
-    await saveWorkspace(workspacePath, repo);
+    await saveWorkspace(workspacePath, repo, workspace.cacheKey);
     core.info('=== OpenClaw complete ===');
 
   } catch (error) {
@@ -232,6 +621,10 @@ async function run(): Promise<void> {
       core.error(`Stack trace: ${error.stack}`);
     }
     core.setFailed(errorMessage);
+    // Don't leave a "Working…" placeholder behind
+    if (progress?.isActive) {
+      await progress.finish(`🤖 **OpenClaw Bot**\n\n⚠️ An error occurred while processing this event:\n\n\`\`\`\n${errorMessage}\n\`\`\``);
+    }
     throw error; // Re-throw to be caught by outer handler
   } finally {
     // Always cleanup, regardless of success or failure
@@ -250,22 +643,47 @@ async function run(): Promise<void> {
   }
 }
 
-// Hard timeout wrapper - ensure action exits within 10 minutes
-const HARD_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
-const timeoutHandle = setTimeout(() => {
-  core.error('⏱️  HARD TIMEOUT: Action exceeded 10 minutes, forcing exit');
-  stopGateway().catch(() => {}).finally(() => {
-    process.exit(1);
+// Time between aborting the run and forcing exit, for posting the note and cleanup
+const ABORT_GRACE_MS = 30 * 1000;
+
+let abortHandle: NodeJS.Timeout | undefined;
+let timeoutHandle: NodeJS.Timeout | undefined;
+
+/**
+ * Hard timeout wrapper - abort the agent shortly before the limit and
+ * force the action to exit at it (armed once the limits are resolved)
+ */
+function armHardTimeout(hardTimeoutMs: number): void {
+  abortHandle = setTimeout(() => {
+    core.warning('⏱️  Approaching the hard timeout, aborting the agent run');
+    runAbort.abort('timeout');
+  }, hardTimeoutMs - ABORT_GRACE_MS);
+
+  timeoutHandle = setTimeout(() => {
+    core.error(`⏱️  HARD TIMEOUT: Action exceeded ${hardTimeoutMs / 1000}s, forcing exit`);
+    stopGateway().catch(() => {}).finally(() => {
+      process.exit(1);
+    });
+  }, hardTimeoutMs);
+}
+
+// The runner signals the process when the job is cancelled
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    core.warning(`Received ${signal}, cancelling the agent run`);
+    runAbort.abort('superseded');
   });
-}, HARD_TIMEOUT_MS);
+}
 
 run()
   .then(() => {
+    clearTimeout(abortHandle);
     clearTimeout(timeoutHandle);
     core.info('✅ Action completed successfully');
     process.exit(0);
   })
   .catch((error) => {
+    clearTimeout(abortHandle);
     clearTimeout(timeoutHandle);
     core.error(`❌ Action failed: ${error}`);
     process.exit(1);
@@ -0,0 +1,77 @@
+import * as core from '@actions/core';
+import { OpenClawConfig } from './context';
+
+/**
+ * Time limits of a run, in milliseconds
+ */
+export interface RunLimits {
+  // The whole action, from start to forced exit
+  hardTimeoutMs: number;
+  // One agent turn, from sending the message to its completion
+  agentTimeoutMs: number;
+  // Other gateway RPCs (history, abort, ...)
+  requestTimeoutMs: number;
+  // Gateway startup until it accepts connections, and each connect handshake
+  gatewayReadyTimeoutMs: number;
+}
+
+type LimitsConfig = NonNullable<OpenClawConfig['limits']>;
+
+// In seconds, like the inputs and .openclaw.yml
+const DEFAULT_LIMITS: Required<LimitsConfig> = {
+  hardTimeout: 600,
+  agentTimeout: 480,
+  requestTimeout: 60,
+  gatewayReadyTimeout: 30,
+};
+
+// Kept free after the agent turn for setup, posting the answer and cleanup
+export const CLEANUP_MS = 60 * 1000;
+
+/**
+ * Seconds from an action input or config value; invalid values fall back
+ * to the default with a warning
+ */
+function readSeconds(name: string, input: string | undefined, configured: number | undefined, fallback: number): number {
+  const raw = input?.trim() ? input.trim() : configured;
+  if (raw === undefined || raw === null) return fallback;
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    core.warning(`Ignoring invalid ${name} "${raw}", using ${fallback}s`);
+    return fallback;
+  }
+  return seconds;
+}
+
+/**
+ * Resolve the run's limits from action inputs (which win) and the
+ * `limits` section of .openclaw.yml, and check they fit inside each
+ * other. Throws when they don't, since the run would be cut off before
+ * the agent could finish.
+ */
+export function resolveRunLimits(config: OpenClawConfig['limits'] = {}, inputs: Partial<Record<keyof LimitsConfig, string>> = {}): RunLimits {
+  const seconds = (key: keyof LimitsConfig, name: string) => readSeconds(name, inputs[key], config[key], DEFAULT_LIMITS[key]);
+  const limits: RunLimits = {
+    hardTimeoutMs: seconds('hardTimeout', 'hard_timeout') * 1000,
+    agentTimeoutMs: seconds('agentTimeout', 'agent_timeout') * 1000,
+    requestTimeoutMs: seconds('requestTimeout', 'request_timeout') * 1000,
+    gatewayReadyTimeoutMs: seconds('gatewayReadyTimeout', 'gateway_ready_timeout') * 1000,
+  };
+
+  const problems: string[] = [];
+  if (limits.agentTimeoutMs > limits.hardTimeoutMs - CLEANUP_MS) {
+    problems.push(`agent_timeout (${limits.agentTimeoutMs / 1000}s) must be at most hard_timeout minus ${CLEANUP_MS / 1000}s for cleanup (${(limits.hardTimeoutMs - CLEANUP_MS) / 1000}s)`);
+  }
+  if (limits.requestTimeoutMs > limits.agentTimeoutMs) {
+    problems.push(`request_timeout (${limits.requestTimeoutMs / 1000}s) must not exceed agent_timeout (${limits.agentTimeoutMs / 1000}s)`);
+  }
+  if (limits.gatewayReadyTimeoutMs > limits.hardTimeoutMs - limits.agentTimeoutMs) {
+    problems.push(`gateway_ready_timeout (${limits.gatewayReadyTimeoutMs / 1000}s) must fit in hard_timeout minus agent_timeout (${(limits.hardTimeoutMs - limits.agentTimeoutMs) / 1000}s)`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid limits: ${problems.join('; ')}`);
+  }
+
+  core.info(`Limits: hard ${limits.hardTimeoutMs / 1000}s, agent ${limits.agentTimeoutMs / 1000}s, request ${limits.requestTimeoutMs / 1000}s, gateway ready ${limits.gatewayReadyTimeoutMs / 1000}s`);
+  return limits;
+}
@@ -0,0 +1,156 @@
+import * as github from '@actions/github';
+import { OpenClawConfig } from './context';
+import { parseCommand, escapeRegExp, DEFAULT_COMMAND_PREFIX } from './commands';
+import { BOT_COMMENT_PREFIX } from './session';
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Author associations from most to least trusted
+const ASSOCIATION_RANK = [
+  'OWNER',
+  'MEMBER',
+  'COLLABORATOR',
+  'CONTRIBUTOR',
+  'FIRST_TIME_CONTRIBUTOR',
+  'FIRST_TIMER',
+  'NONE',
+];
+
+const DEFAULT_BOT_LOGIN = 'github-actions[bot]';
+
+interface EventActor {
+  login: string;
+  type?: string;
+  // Unknown for whoever adds a label to someone else's issue
+  association?: string;
+  body: string;
+  labels: string[];
+  isComment: boolean;
+}
+
+/**
+ * Pull the author, text and labels out of an issue/PR event payload.
+ * Returns null for events without a human author (schedule, dispatch).
+ */
+function getEventActor(context: typeof github.context): EventActor | null {
+  const { payload, eventName } = context;
+  const labelNames = (labels: any[] | undefined) =>
+    (labels || []).map(l => (typeof l === 'string' ? l : l.name || '')).filter(Boolean);
+
+  if ((eventName === 'issue_comment' || eventName === 'pull_request_review_comment') && payload.comment) {
+    const thread = payload.issue || payload.pull_request;
+    return {
+      login: payload.comment.user.login,
+      type: payload.comment.user.type,
+      association: payload.comment.author_association,
+      body: payload.comment.body || '',
+      labels: labelNames(thread?.labels),
+      isComment: true
+    };
+  }
+
+  // A label is added by the sender, not the issue author. The payload has
+  // no association for the sender; fix mode checks their permission itself.
+  if (eventName === 'issues' && payload.action === 'labeled' && payload.issue && payload.sender) {
+    return {
+      login: payload.sender.login,
+      type: payload.sender.type,
+      association: payload.sender.login === payload.issue.user.login ? payload.issue.author_association : undefined,
+      body: '',
+      labels: labelNames(payload.issue.labels),
+      isComment: false
+    };
+  }
+
+  if (eventName === 'issues' && payload.issue) {
+    return {
+      login: payload.issue.user.login,
+      type: payload.issue.user.type,
+      association: payload.issue.author_association,
+      body: `${payload.issue.title}\n\n${payload.issue.body || ''}`,
+      labels: labelNames(payload.issue.labels),
+      isComment: false
+    };
+  }
+
+  if (eventName === 'pull_request' && payload.pull_request) {
+    return {
+      login: payload.pull_request.user.login,
+      type: payload.pull_request.user.type,
+      association: payload.pull_request.author_association,
+      body: `${payload.pull_request.title}\n\n${payload.pull_request.body || ''}`,
+      labels: labelNames(payload.pull_request.labels),
+      isComment: false
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether the current event should be answered, based on the
+ * `triggers` section of .openclaw.yml
+ */
+export function evaluateTriggerPolicy(config: OpenClawConfig, context: typeof github.context = github.context): PolicyDecision {
+  const policy = config.triggers || {};
+  const actor = getEventActor(context);
+  if (!actor) {
+    return { allowed: true };
+  }
+
+  const login = actor.login.toLowerCase();
+  const botLogin = (policy.botLogin || DEFAULT_BOT_LOGIN).toLowerCase();
+
+  // Never answer our own comments, whatever the bot filter says
+  if (login === botLogin || (actor.isComment && actor.body.startsWith(BOT_COMMENT_PREFIX))) {
+    return { allowed: false, reason: 'event was created by the bot itself' };
+  }
+
+  if (policy.ignoreBots !== false && (login.endsWith('[bot]') || actor.type === 'Bot')) {
+    return { allowed: false, reason: `author @${actor.login} is a bot` };
+  }
+
+  const denyUsers = (policy.denyUsers || []).map(u => u.toLowerCase());
+  if (denyUsers.includes(login)) {
+    return { allowed: false, reason: `author @${actor.login} is in the deny list` };
+  }
+
+  const allowUsers = (policy.allowUsers || []).map(u => u.toLowerCase());
+  const explicitlyAllowed = allowUsers.includes(login);
+  if (allowUsers.length > 0 && !explicitlyAllowed) {
+    return { allowed: false, reason: `author @${actor.login} is not in the allow list` };
+  }
+
+  if (policy.minAssociation && !explicitlyAllowed && actor.association !== undefined) {
+    const required = ASSOCIATION_RANK.indexOf(policy.minAssociation.toUpperCase());
+    const actual = ASSOCIATION_RANK.indexOf((actor.association || 'NONE').toUpperCase());
+    if (required >= 0 && (actual < 0 || actual > required)) {
+      return { allowed: false, reason: `author association ${actor.association || 'NONE'} is below ${policy.minAssociation}` };
+    }
+  }
+
+  const optOut = actor.labels.find(l => (policy.optOutLabels || []).includes(l));
+  if (optOut) {
+    return { allowed: false, reason: `opted out by label "${optOut}"` };
+  }
+
+  const optIn = policy.optInLabels || [];
+  if (optIn.length > 0 && !actor.labels.some(l => optIn.includes(l))) {
+    return { allowed: false, reason: `missing opt-in label (${optIn.join(', ')})` };
+  }
+
+  // Mentions only gate comments; a slash command counts as addressing the bot
+  if (policy.requireMention && actor.isComment) {
+    const mention = policy.mention || '@openclaw';
+    const mentioned = new RegExp(`${escapeRegExp(mention)}(?![\\w-])`, 'i').test(actor.body);
+    const prefix = config.commands?.prefix || DEFAULT_COMMAND_PREFIX;
+    if (!mentioned && !parseCommand(actor.body, prefix)) {
+      return { allowed: false, reason: `comment does not mention ${mention}` };
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,153 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+
+export interface AgentProgress {
+  // Assistant text streamed so far
+  text: string;
+  // What the agent is doing right now, e.g. "Running bash"
+  status?: string;
+}
+
+const DEFAULT_INTERVAL_MS = 5000;
+// Only the end of the streamed text is shown while the run is going
+const MAX_PREVIEW_CHARS = 3000;
+
+/**
+ * A "⏳ Working…" comment posted when a run starts and edited as the agent
+ * streams, at most once per interval. When the run ends it is replaced
+ * with the final answer or the error.
+ */
+export class ProgressComment {
+  private commentId: number | null = null;
+  private latest: AgentProgress | null = null;
+  private lastRendered = '';
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(
+    private octokit: ReturnType<typeof github.getOctokit>,
+    private owner: string,
+    private repo: string,
+    private issueNumber: number,
+    private intervalMs: number = DEFAULT_INTERVAL_MS
+  ) {}
+
+  /**
+   * Post the placeholder comment
+   */
+  async start(): Promise<void> {
+    try {
+      const { data } = await this.octokit.rest.issues.createComment({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: this.issueNumber,
+        body: this.render({ text: '' })
+      });
+      this.commentId = data.id;
+      core.info(`Posted progress comment ${data.id}`);
+    } catch (error) {
+      core.warning(`Failed to post progress comment: ${error}`);
+    }
+  }
+
+  /**
+   * The placeholder comment's id, once posted
+   */
+  get id(): number | null {
+    return this.commentId;
+  }
+
+  /**
+   * Whether the placeholder is posted and not finalized yet
+   */
+  get isActive(): boolean {
+    return !this.finished && this.commentId !== null;
+  }
+
+  /**
+   * Record the latest progress; the comment is edited on the next tick
+   */
+  update(progress: AgentProgress): void {
+    if (this.finished || this.commentId === null) return;
+    this.latest = progress;
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pending = this.pending.then(() => this.flush());
+      }, this.intervalMs);
+    }
+  }
+
+  /**
+   * Replace the placeholder with the final body. Returns false when there
+   * is no placeholder to edit, so the caller can post a new comment.
+   */
+  async finish(body: string): Promise<boolean> {
+    this.stop();
+    await this.pending;
+    if (this.commentId === null) return false;
+    try {
+      await this.edit(body);
+      return true;
+    } catch (error) {
+      core.warning(`Failed to finalize progress comment: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the placeholder, e.g. when the answer is posted elsewhere
+   */
+  async discard(): Promise<void> {
+    this.stop();
+    await this.pending;
+    if (this.commentId === null) return;
+    try {
+      await this.octokit.rest.issues.deleteComment({ owner: this.owner, repo: this.repo, comment_id: this.commentId });
+    } catch (error) {
+      core.warning(`Failed to delete progress comment: ${error}`);
+    }
+    this.commentId = null;
+  }
+
+  private stop(): void {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.finished || !this.latest) return;
+    const body = this.render(this.latest);
+    if (body === this.lastRendered) return;
+    try {
+      await this.edit(body);
+    } catch (error) {
+      core.debug(`Progress update failed: ${error}`);
+    }
+  }
+
+  private async edit(body: string): Promise<void> {
+    await this.octokit.rest.issues.updateComment({
+      owner: this.owner,
+      repo: this.repo,
+      comment_id: this.commentId!,
+      body
+    });
+    this.lastRendered = body;
+  }
+
+  private render(progress: AgentProgress): string {
+    const status = progress.status ? `\n\n_${progress.status}…_` : '';
+    let text = progress.text.length > MAX_PREVIEW_CHARS
+      ? `…${progress.text.substring(progress.text.length - MAX_PREVIEW_CHARS)}`
+      : progress.text;
+    // Close a code block the agent is still in the middle of
+    const fences = text.match(/^[ \t]*```/gm)?.length ?? 0;
+    if (fences % 2 === 1) text += '\n```';
+    return `🤖 **OpenClaw Bot**\n\n⏳ Working…${status}${text.trim() ? `\n\n${text}` : ''}`;
+  }
+}
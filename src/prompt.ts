@@ -0,0 +1,212 @@
+import * as core from '@actions/core';
+
+/**
+ * A piece of the prompt. Sections are emitted in the order given, but
+ * shrink in priority order (lowest first) when the prompt is over budget.
+ */
+export interface PromptSection {
+  id: string;
+  content: string;
+  priority: number;
+  // Shorter stand-in tried before dropping or truncating
+  summarize?: (content: string) => string;
+  // Whether the section may be removed entirely
+  droppable?: boolean;
+  // Truncation floor for sections that can't be dropped
+  minTokens?: number;
+}
+
+export interface BudgetEntry {
+  id: string;
+  priority: number;
+  originalTokens: number;
+  tokens: number;
+  action: 'kept' | 'summarized' | 'truncated' | 'dropped';
+}
+
+export interface AssembledPrompt {
+  text: string;
+  tokens: number;
+  budget: number;
+  entries: BudgetEntry[];
+}
+
+// Higher priorities are kept longer
+export const SECTION_PRIORITY = {
+  request: 100,
+  instructions: 90,
+  pullRequest: 85,
+  diff: 70,
+  duplicates: 65,
+  thread: 60,
+  memory: 55,
+  history: 50,
+  commits: 30,
+  issues: 20,
+  readme: 10,
+};
+
+// Share of the model's context window given to the prompt; the rest is
+// left for OpenClaw's own system prompt, tool results and the reply
+const PROMPT_WINDOW_SHARE = 0.5;
+
+const CHARS_PER_TOKEN = 4;
+const SECTION_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Rough token estimate (~4 characters per token for English and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Prompt budget for a model with the given context window
+ */
+export function getPromptBudget(contextWindow: number, maxTokens?: number): number {
+  const budget = Math.floor(contextWindow * PROMPT_WINDOW_SHARE);
+  return maxTokens ? Math.min(budget, maxTokens) : budget;
+}
+
+/**
+ * The event or user message itself, kept until everything else is gone
+ */
+export function requestSection(content: string, id: string = 'request'): PromptSection {
+  return { id, content, priority: SECTION_PRIORITY.request, minTokens: 2000 };
+}
+
+/**
+ * Cut text to roughly `maxTokens`, preferring a line boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number, note: string = 'truncated to fit the context window'): string {
+  if (text.length <= maxTokens * CHARS_PER_TOKEN) return text;
+
+  // Leave room for the note and a closing fence
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN - note.length - 12);
+
+  let cut = text.substring(0, maxChars);
+  const lastNewline = cut.lastIndexOf('\n');
+  if (lastNewline > maxChars * 0.8) {
+    cut = cut.substring(0, lastNewline);
+  }
+  // Close a code fence left open by the cut
+  const fences = cut.match(/^[ \t]*```/gm)?.length ?? 0;
+  const closeFence = fences % 2 === 1 ? '\n```' : '';
+  return `${cut}${closeFence}\n\n... (${note})`;
+}
+
+/**
+ * Summarize markdown down to its headings and opening paragraph
+ */
+export function summarizeMarkdown(content: string): string {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of content.split('\n')) {
+    if (line.trimStart().startsWith('```')) inFence = !inFence;
+    if (!inFence && /^#{1,6}\s/.test(line)) headings.push(line);
+  }
+
+  const intro = content
+    .split(/\n\s*\n/)
+    .find(p => p.trim() && !/^#{1,6}\s/.test(p.trim()));
+
+  return [headings[0], intro, ...headings.slice(1), '... (summarized: headings and introduction only)']
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Keep the first `keep` lines of a list section
+ */
+export function summarizeList(keep: number): (content: string) => string {
+  return (content: string) => {
+    const lines = content.split('\n');
+    const items = lines.filter(l => l.startsWith('- '));
+    if (items.length <= keep) return content;
+
+    const header = lines.filter(l => !l.startsWith('- ')).join('\n').trim();
+    return `${header}\n\n${items.slice(0, keep).join('\n')}\n- ... and ${items.length - keep} more`;
+  };
+}
+
+/**
+ * Join sections into one prompt that fits `budgetTokens`. Low-priority
+ * sections are summarized or dropped first; high-priority ones are only
+ * truncated once everything below them is gone.
+ */
+export function assemblePrompt(sections: PromptSection[], budgetTokens: number): AssembledPrompt {
+  const working = sections
+    .filter(s => s.content.trim())
+    .map(s => ({
+      section: s,
+      content: s.content,
+      entry: {
+        id: s.id,
+        priority: s.priority,
+        originalTokens: estimateTokens(s.content),
+        tokens: estimateTokens(s.content),
+        action: 'kept'
+      } as BudgetEntry
+    }));
+
+  const separatorTokens = estimateTokens(SECTION_SEPARATOR);
+  const total = () => working
+    .filter(w => w.entry.action !== 'dropped')
+    .reduce((sum, w) => sum + w.entry.tokens + separatorTokens, 0);
+
+  const byPriority = [...working].sort((a, b) => a.section.priority - b.section.priority);
+  for (const item of byPriority) {
+    let overflow = total() - budgetTokens;
+    if (overflow <= 0) break;
+
+    if (item.section.summarize) {
+      const summary = item.section.summarize(item.content);
+      if (summary.length < item.content.length) {
+        item.content = summary;
+        item.entry.tokens = estimateTokens(summary);
+        item.entry.action = 'summarized';
+        overflow = total() - budgetTokens;
+        if (overflow <= 0) break;
+      }
+    }
+
+    if (item.section.droppable) {
+      item.entry.action = 'dropped';
+      item.entry.tokens = 0;
+      continue;
+    }
+
+    const floor = Math.min(item.entry.tokens, item.section.minTokens ?? 0);
+    const target = Math.max(floor, item.entry.tokens - overflow);
+    if (target < item.entry.tokens) {
+      item.content = truncateToTokens(item.content, target, `${item.section.id} truncated to fit the context window`);
+      item.entry.tokens = estimateTokens(item.content);
+      item.entry.action = 'truncated';
+    }
+  }
+
+  const text = working
+    .filter(w => w.entry.action !== 'dropped')
+    .map(w => w.content)
+    .join(SECTION_SEPARATOR);
+
+  return {
+    text,
+    tokens: estimateTokens(text),
+    budget: budgetTokens,
+    entries: working.map(w => w.entry)
+  };
+}
+
+/**
+ * Write the budget breakdown to the job log
+ */
+export function logPromptBudget(prompt: AssembledPrompt): void {
+  core.info(`Prompt budget: ~${prompt.tokens.toLocaleString()} / ${prompt.budget.toLocaleString()} tokens`);
+  for (const entry of prompt.entries) {
+    const change = entry.action === 'kept'
+      ? `${entry.tokens.toLocaleString()}`
+      : `${entry.originalTokens.toLocaleString()} → ${entry.tokens.toLocaleString()} (${entry.action})`;
+    core.info(`  ${entry.id.padEnd(20)} p${String(entry.priority).padEnd(4)} ${change}`);
+  }
+}
@@ -1,27 +1,132 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
+import { PromptSection, SECTION_PRIORITY, estimateTokens } from './prompt';
+import { matchesAnyGlob, matchesGlob } from './glob';
+import { CodeOwnersArea, fetchCodeOwners, groupByCodeOwners, formatCodeOwnersAreas } from './codeowners';
+
+export type DiffSide = 'LEFT' | 'RIGHT';
+
+export type ReviewSeverity = 'blocker' | 'major' | 'minor' | 'nit';
 
 export interface ReviewComment {
   path: string;
+  // Last line of the commented range (old file numbering on the LEFT side)
   line: number;
+  side?: DiffSide;
+  // First line of a multi-line range
+  startLine?: number;
+  startSide?: DiffSide;
+  severity?: ReviewSeverity;
   body: string;
+  // Replacement text for the commented lines, posted as a ```suggestion block
+  suggestion?: string;
+}
+
+export interface DiffHunk {
+  // Old-file lines shown in the hunk (removed and context lines)
+  left: Set<number>;
+  // New-file lines shown in the hunk (added and context lines)
+  right: Set<number>;
 }
 
 export interface ParsedReview {
   summary: string;
   comments: ReviewComment[];
   verdict: 'approve' | 'request_changes' | 'comment';
+  // Earlier bot comments the agent considers resolved (incremental reviews)
+  addressed?: Array<{ id: number; note: string }>;
+}
+
+// Decides which GitHub review event is sent (`review` in .openclaw.yml)
+export interface ReviewPolicy {
+  // Whether the bot may approve PRs at all
+  allowApprove?: boolean;
+  // Lowest severity that justifies requesting changes
+  requestChangesOn?: ReviewSeverity;
+  // Most nit comments posted per review
+  maxNits?: number;
+}
+
+// Extra review guidance for files matching a glob (`review.rules`)
+export interface ReviewRule {
+  path: string;
+  instructions: string;
+}
+
+export interface ReviewOptions {
+  // Review only the changes since the bot's last review
+  incremental?: { botLogin: string };
+  rules?: ReviewRule[];
+  // Globs of files left out of the review (generated, vendored)
+  ignore?: string[];
+  // Look up CODEOWNERS for the touched areas (default: true)
+  codeowners?: boolean;
+}
+
+export interface PRFile {
+  filename: string;
+  patch?: string;
+  status: string;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url?: string;
+  user: { login: string };
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+export interface ReviewPrompt {
+  sections: PromptSection[];
+  // All files of the PR, used to anchor inline comments
+  prFiles: PRFile[];
+  // Files whose changes are in the prompt; only the new ones for incremental reviews
+  reviewFiles: PRFile[];
+  headSha: string;
+  // CODEOWNERS areas the reviewed files belong to
+  codeOwners: CodeOwnersArea[];
+  // Set when there is nothing new to review
+  skip?: string;
+  // Earlier bot findings not yet marked addressed (incremental reviews)
+  earlierFindings?: BotReviewComment[];
+}
+
+// GitHub lists at most this many files in a comparison
+const MAX_COMPARE_FILES = 300;
+
+export interface BotReviewComment {
+  id: number;
+  path: string;
+  line: number | null;
+  body: string;
+  severity?: ReviewSeverity;
+  // The bot replied that a later change resolved it
+  addressed: boolean;
+}
+
+// Start of the bot's reply to an earlier comment a change resolved
+const ADDRESSED_PREFIX = '✅ Addressed';
+
+// Hidden marker recording which head commit a review covered
+const REVIEWED_SHA_PATTERN = /<!-- openclaw:reviewed-sha=([0-9a-f]{7,40}) -->/;
+
+export function reviewedShaMarker(sha: string): string {
+  return `<!-- openclaw:reviewed-sha=${sha} -->`;
 }
 
 /**
- * Fetch the full diff for a PR
+ * Fetch the full diff for a PR. The cap only guards against huge
+ * payloads; prompt assembly decides how much of the diff fits.
  */
 export async function fetchPRDiff(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
   pullNumber: number,
-  maxChars: number = 50000
+  maxChars: number = 1000000
 ): Promise<string> {
   try {
     const { data } = await octokit.rest.pulls.get({
@@ -45,16 +150,16 @@ export async function fetchPRDiff(
 }
 
 /**
- * Fetch file patches with line mapping info
+ * Fetch file patches with line mapping info (all pages)
  */
 export async function fetchPRFiles(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
   pullNumber: number
-): Promise<Array<{ filename: string; patch?: string; status: string }>> {
+): Promise<PRFile[]> {
   try {
-    const { data: files } = await octokit.rest.pulls.listFiles({
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
       owner,
       repo,
       pull_number: pullNumber,
@@ -73,7 +178,398 @@ export async function fetchPRFiles(
 }
 
 /**
- * Parse agent response to extract structured review
+ * Format a file's patch as a unified diff
+ */
+function formatFileDiff(file: PRFile): string {
+  if (!file.patch) {
+    return `diff --git a/${file.filename} b/${file.filename}\n(${file.status}; no textual diff available)`;
+  }
+  return `diff --git a/${file.filename} b/${file.filename}\n--- a/${file.filename}\n+++ b/${file.filename}\n${file.patch}`;
+}
+
+/**
+ * Find the head SHA recorded by the bot's most recent review
+ */
+export async function findLastReviewedSha(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<string | null> {
+  try {
+    const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: 100
+    });
+    for (const review of reviews.reverse()) {
+      const match = (review.body || '').match(REVIEWED_SHA_PATTERN);
+      if (match) return match[1];
+    }
+  } catch (error) {
+    core.warning(`Failed to fetch earlier reviews: ${error}`);
+  }
+  return null;
+}
+
+/**
+ * Fetch the files changed between two commits (all pages). `status` is
+ * GitHub's comparison status; `diverged` means `baseSha` is no longer an
+ * ancestor of `headSha`, e.g. after a rebase.
+ */
+export async function fetchCompareFiles(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string
+): Promise<{ files: PRFile[]; commits: number; status: string } | null> {
+  try {
+    const files = new Map<string, PRFile>();
+    let commits = 0;
+    let status = '';
+    const pages = octokit.paginate.iterator(octokit.rest.repos.compareCommitsWithBasehead, {
+      owner,
+      repo,
+      basehead: `${baseSha}...${headSha}`,
+      per_page: 100
+    });
+    for await (const { data } of pages) {
+      commits = data.total_commits;
+      status = data.status;
+      for (const f of data.files || []) {
+        files.set(f.filename, { filename: f.filename, patch: f.patch, status: f.status });
+      }
+    }
+    return { files: [...files.values()], commits, status };
+  } catch (error) {
+    core.warning(`Failed to compare ${baseSha.substring(0, 7)}...${headSha.substring(0, 7)}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Fetch the inline review comments the bot left on a PR
+ */
+export async function fetchBotReviewComments(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  botLogin: string
+): Promise<BotReviewComment[]> {
+  try {
+    const comments = await octokit.paginate(octokit.rest.pulls.listReviewComments, {
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: 100
+    });
+    const byBot = comments.filter(c => c.user?.login.toLowerCase() === botLogin.toLowerCase());
+    const addressed = new Set(byBot.filter(c => c.in_reply_to_id && c.body.startsWith(ADDRESSED_PREFIX)).map(c => c.in_reply_to_id));
+    return byBot
+      .filter(c => !c.in_reply_to_id)
+      .map(c => ({
+        id: c.id,
+        path: c.path,
+        line: c.line ?? null,
+        body: c.body,
+        severity: REVIEW_SEVERITIES.find(severity => c.body.startsWith(SEVERITY_BADGES[severity])),
+        addressed: addressed.has(c.id)
+      }));
+  } catch (error) {
+    core.warning(`Failed to fetch earlier review comments: ${error}`);
+    return [];
+  }
+}
+
+function formatFilesSummary(files: PRFile[]): string {
+  if (files.length === 0) return '';
+  const list = files.slice(0, 20).map(f => `- ${f.status}: ${f.filename}`).join('\n');
+  const more = files.length > 20 ? `\n... and ${files.length - 20} more files` : '';
+  return `\n\nFiles changed (${files.length}):\n${list}${more}`;
+}
+
+/**
+ * Keep only the files of a unified diff whose path passes `keep`
+ */
+function filterDiff(diff: string, keep: (path: string) => boolean): string {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter(part => {
+      const match = part.match(/^diff --git a\/.+? b\/(.+)$/m);
+      return !match || keep(match[1]);
+    })
+    .join('');
+}
+
+/**
+ * Prompt section with the path rules that apply to `files`, each listing
+ * the files it covers. Null when no rule matches.
+ */
+export function buildReviewRulesSection(rules: ReviewRule[], files: PRFile[]): PromptSection | null {
+  const entries = rules
+    .filter(rule => rule?.path && rule?.instructions)
+    .map(rule => ({ rule, matched: files.filter(f => matchesGlob(f.filename, rule.path)) }))
+    .filter(e => e.matched.length > 0);
+  if (entries.length === 0) return null;
+
+  const content = entries.map(({ rule, matched }) => {
+    const list = matched.slice(0, 10).map(f => `\`${f.filename}\``).join(', ');
+    const more = matched.length > 10 ? ` and ${matched.length - 10} more` : '';
+    return `### \`${rule.path}\`\n\n${rule.instructions.trim()}\n\nApplies to: ${list}${more}`;
+  });
+
+  return {
+    id: 'review-rules',
+    content: `## Path-Specific Review Rules\n\nThe repository has extra review rules for some of the changed files. Apply each rule only to the files listed under it.\n\n${content.join('\n\n')}`,
+    priority: SECTION_PRIORITY.instructions,
+    minTokens: 500
+  };
+}
+
+/**
+ * Fetch a PR's diff and files and build the review prompt sections.
+ * With `incremental`, a PR the bot already reviewed only gets the
+ * changes since the last reviewed head, plus the bot's earlier comments.
+ */
+export async function buildReviewSections(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  pr: PullRequestInfo,
+  options: ReviewOptions = {}
+): Promise<ReviewPrompt> {
+  const { incremental } = options;
+  const rules = options.rules || [];
+  const ignore = options.ignore || [];
+  const isReviewed = (filePath: string) => !matchesAnyGlob(filePath, ignore);
+
+  core.info('Fetching PR diff for review...');
+  const prFiles = await fetchPRFiles(octokit, owner, repo, pr.number);
+  const reviewable = prFiles.filter(f => isReviewed(f.filename));
+  const ignoredCount = prFiles.length - reviewable.length;
+  if (ignoredCount > 0) {
+    core.info(`Ignoring ${ignoredCount} files matching review.ignore`);
+  }
+
+  // GitHub applies the base branch's CODEOWNERS to a PR
+  const codeOwners = options.codeowners !== false
+    ? groupByCodeOwners(await fetchCodeOwners(octokit, owner, repo, pr.base.ref), reviewable.map(f => f.filename))
+    : [];
+
+  const ignoredNote = ignoredCount > 0 ? `\n${ignoredCount} files are excluded from review (generated or vendored).` : '';
+  const ownersNote = codeOwners.length > 0 ? `\n\n${formatCodeOwnersAreas(codeOwners)}` : '';
+  const prInfo = `PR #${pr.number} by @${pr.user.login}: ${pr.title}\n\n${pr.body || '(no description)'}${formatFilesSummary(prFiles)}${ignoredNote}${ownersNote}\n\nPR URL: ${pr.html_url}\nBranch: ${pr.head.ref} → ${pr.base.ref}`;
+
+  const sections: PromptSection[] = [
+    { id: 'review-instructions', content: getReviewInstructions().trim(), priority: SECTION_PRIORITY.instructions, minTokens: 2000 },
+    { id: 'pull-request', content: `## Pull Request\n\n${prInfo}`, priority: SECTION_PRIORITY.pullRequest, minTokens: 1000 },
+  ];
+
+  const lastSha = incremental ? await findLastReviewedSha(octokit, owner, repo, pr.number) : null;
+  let compare = lastSha && lastSha !== pr.head.sha
+    ? await fetchCompareFiles(octokit, owner, repo, lastSha, pr.head.sha)
+    : null;
+  // After a force-push the old head isn't an ancestor, and the comparison
+  // would include base branch changes; a capped file list would miss files
+  if (compare && compare.status !== 'ahead') {
+    core.info(`Reviewed commit ${lastSha!.substring(0, 7)} is ${compare.status} of the head; reviewing the full PR`);
+    compare = null;
+  } else if (compare && compare.files.length >= MAX_COMPARE_FILES) {
+    core.info(`More than ${MAX_COMPARE_FILES} files changed since the last review; reviewing the full PR`);
+    compare = null;
+  }
+
+  if (incremental && lastSha && compare) {
+    compare.files = compare.files.filter(f => isReviewed(f.filename));
+    core.info(`Incremental review: ${compare.commits} commits, ${compare.files.length} files since ${lastSha.substring(0, 7)}`);
+    if (compare.files.length === 0) {
+      return { sections, prFiles, reviewFiles: [], headSha: pr.head.sha, codeOwners, skip: `no reviewable changes since ${lastSha.substring(0, 7)}` };
+    }
+
+    const earlier = await fetchBotReviewComments(octokit, owner, repo, pr.number, incremental.botLogin);
+    const earlierList = earlier.length > 0
+      ? earlier.map(c => `- [${c.id}] \`${c.path}${c.line ? `:${c.line}` : ' (outdated)'}\`: ${c.body.replace(/\s+/g, ' ').substring(0, 300)}`).join('\n')
+      : '(none)';
+
+    sections.push({
+      id: 'earlier-review',
+      content: `## Incremental Review\n\nYou already reviewed this PR up to ${lastSha.substring(0, 7)}. Below are only the changes since then (${compare.commits} new commits, ${pr.head.sha.substring(0, 7)} is the new head). Review just these changes and don't repeat earlier comments that still apply.\n\nIf the new changes resolve one of your earlier comments, list it in the review's \`addressed\` array as \`{ "id": <comment id>, "note": "<one sentence on how it was resolved>" }\`.\n\n### Your Earlier Comments\n\n${earlierList}`,
+      priority: SECTION_PRIORITY.pullRequest,
+      minTokens: 1000
+    });
+    const rulesSection = buildReviewRulesSection(rules, compare.files);
+    if (rulesSection) sections.push(rulesSection);
+    sections.push({
+      id: 'diff',
+      content: `## Diff since ${lastSha.substring(0, 7)}\n\n\`\`\`diff\n${compare.files.map(formatFileDiff).join('\n')}\n\`\`\``,
+      priority: SECTION_PRIORITY.diff,
+      minTokens: 2000
+    });
+
+    const earlierFindings = earlier.filter(c => !c.addressed);
+    return { sections, prFiles, reviewFiles: compare.files, headSha: pr.head.sha, codeOwners, earlierFindings };
+  }
+
+  const rulesSection = buildReviewRulesSection(rules, reviewable);
+  if (rulesSection) sections.push(rulesSection);
+
+  let diff = await fetchPRDiff(octokit, owner, repo, pr.number);
+  if (ignoredCount > 0) {
+    diff = filterDiff(diff, isReviewed);
+  }
+  // GitHub refuses the diff format for PRs over 300 files or a size
+  // limit; the paginated file patches cover those
+  if (!diff && reviewable.length > 0) {
+    core.info('PR diff unavailable, building it from the file patches');
+    diff = reviewable.map(formatFileDiff).join('\n');
+  }
+  core.info(`Fetched diff: ${diff.length} chars, ${reviewable.length} files`);
+  if (diff) {
+    sections.push({ id: 'diff', content: `## Diff\n\n\`\`\`diff\n${diff}\n\`\`\``, priority: SECTION_PRIORITY.diff, minTokens: 2000 });
+  }
+
+  return { sections, prFiles, reviewFiles: reviewable, headSha: pr.head.sha, codeOwners };
+}
+
+// Smallest diff budget per review pass, however little room is left
+const MIN_CHUNK_TOKENS = 4000;
+
+// Share of the remaining budget a diff chunk may use; the rest stays
+// available for repo and thread context
+const CHUNK_BUDGET_SHARE = 0.6;
+
+/**
+ * Group files into chunks whose diffs fit `maxTokens` each.
+ * A file larger than the limit gets a chunk of its own.
+ */
+export function chunkPRFiles(files: PRFile[], maxTokens: number): PRFile[][] {
+  const chunks: PRFile[][] = [];
+  let current: PRFile[] = [];
+  let currentTokens = 0;
+
+  for (const file of files) {
+    const tokens = estimateTokens(formatFileDiff(file));
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(file);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Split review sections into one set per pass when the diff doesn't fit
+ * the prompt budget. Each pass keeps the instructions and PR info and
+ * gets its own file-grouped slice of the diff and the path rules for it.
+ */
+export function splitReviewPasses(
+  contextSections: PromptSection[],
+  eventSections: PromptSection[],
+  files: PRFile[],
+  budgetTokens: number,
+  rules: ReviewRule[] = []
+): Array<{ sections: PromptSection[]; files: PRFile[] }> {
+  const diffSection = eventSections.find(s => s.id === 'diff');
+  const otherSections = eventSections.filter(s => s.id !== 'diff');
+  const fixedTokens = otherSections.reduce((sum, s) => sum + estimateTokens(s.content), 0);
+  const contextTokens = contextSections.reduce((sum, s) => sum + estimateTokens(s.content), 0);
+
+  // The whole review fits: a single pass with the full diff
+  if (!diffSection || fixedTokens + contextTokens + estimateTokens(diffSection.content) <= budgetTokens) {
+    return [{ sections: eventSections, files }];
+  }
+
+  const chunkTokens = Math.max(MIN_CHUNK_TOKENS, Math.floor((budgetTokens - fixedTokens) * CHUNK_BUDGET_SHARE));
+  const chunks = chunkPRFiles(files, chunkTokens);
+  if (chunks.length <= 1) {
+    return [{ sections: eventSections, files }];
+  }
+
+  // Each pass only carries the path rules for its own files
+  const chunkRules = (chunk: PRFile[]) => {
+    const section = buildReviewRulesSection(rules, chunk);
+    return section ? [section] : [];
+  };
+
+  return chunks.map((chunk, i) => ({
+    files: chunk,
+    sections: [
+      ...otherSections.filter(s => s.id !== 'review-rules'),
+      ...chunkRules(chunk),
+      {
+        ...diffSection,
+        content: `## Diff (part ${i + 1} of ${chunks.length})\n\nThis PR is too large to review at once. This part covers ${chunk.length} of ${files.length} files; the others are reviewed separately. Only comment on files in this part.\n\n\`\`\`diff\n${chunk.map(formatFileDiff).join('\n')}\n\`\`\``
+      }
+    ]
+  }));
+}
+
+/**
+ * Merge the reviews of several passes into one review with a combined
+ * summary and a single verdict (any request_changes wins; approve only
+ * if every pass approved)
+ */
+export function mergeReviews(reviews: ParsedReview[], parts: PRFile[][]): ParsedReview {
+  if (reviews.length === 1) {
+    return reviews[0];
+  }
+
+  const verdict: ParsedReview['verdict'] = reviews.some(r => r.verdict === 'request_changes')
+    ? 'request_changes'
+    : reviews.every(r => r.verdict === 'approve') ? 'approve' : 'comment';
+
+  const summaries = reviews.map((r, i) => {
+    const files = parts[i] || [];
+    const fileList = files.slice(0, 5).map(f => `\`${f.filename}\``).join(', ');
+    const more = files.length > 5 ? ` and ${files.length - 5} more` : '';
+    return `### Part ${i + 1} of ${reviews.length} (${fileList}${more})\n\n${r.summary || '_No summary._'}`;
+  });
+
+  const seen = new Set<string>();
+  const comments = reviews.flatMap(r => r.comments).filter(c => {
+    const key = `${c.path}:${c.line}:${c.body}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const addressed = reviews.flatMap(r => r.addressed || []);
+
+  return {
+    summary: `This PR was reviewed in ${reviews.length} parts.\n\n${summaries.join('\n\n')}`,
+    comments,
+    verdict,
+    addressed: addressed.length > 0 ? addressed : undefined
+  };
+}
+
+/**
+ * Split a `SUGGESTION:` code block out of a comment body
+ */
+function extractSuggestion(body: string): { text: string; suggestion?: string } {
+  const match = body.match(/^SUGGESTION:[ \t]*\n```[\w+-]*[ \t]*\n([\s\S]*?)\n?```[ \t]*$/m);
+  if (!match) {
+    return { text: body.trim() };
+  }
+  return {
+    text: body.replace(match[0], '').trim(),
+    suggestion: match[1]
+  };
+}
+
+/**
+ * Parse a review in the older markdown format. Used as a fallback when the
+ * agent's reply has no valid JSON review.
  * 
  * Expected format:
  * ---
@@ -85,11 +581,21 @@ export async function fetchPRFiles(
  * 
  * ## Comments
  * 
- * ### FILE: path/to/file.ts LINE: 42
+ * ### FILE: path/to/file.ts LINE: 42 SEVERITY: major
  * Comment about this specific line...
  * 
- * ### FILE: another/file.js LINE: 15
- * Another comment...
+ * ### FILE: another/file.js LINE: 10-18
+ * Comment about a range of lines...
+ * 
+ * ### FILE: old/file.js LINE: 7 SIDE: LEFT
+ * Comment about a removed line (old file numbering)...
+ * 
+ * ### FILE: path/to/file.ts LINE: 20-21
+ * Why the change is needed...
+ * SUGGESTION:
+ * ```ts
+ * replacement for lines 20-21
+ * ```
  */
 export function parseReviewResponse(response: string): ParsedReview {
   const result: ParsedReview = {
@@ -105,7 +611,7 @@ export function parseReviewResponse(response: string): ParsedReview {
   }
 
   // Extract summary
-  const summaryMatch = response.match(/## Summary\s*\n([\s\S]*?)(?=\n## Comments|\n### FILE:|$)/i);
+  const summaryMatch = response.match(/## Summary\s*\n([\s\S]*?)(?=\n## Comments|\n### (?:FILE|ADDRESSED):|$)/i);
   if (summaryMatch) {
     result.summary = summaryMatch[1].trim();
   } else {
@@ -114,62 +620,348 @@ export function parseReviewResponse(response: string): ParsedReview {
   }
 
   // Extract inline comments
-  const commentPattern = /### FILE:\s*(\S+)\s+LINE:\s*(\d+)\s*\n([\s\S]*?)(?=\n### FILE:|$)/gi;
+  const commentPattern = /### FILE:\s*(\S+)\s+LINE:\s*(\d+)(?:\s*-\s*(\d+))?(?:\s+SIDE:\s*(LEFT|RIGHT))?(?:\s+SEVERITY:\s*(blocker|major|minor|nit))?[ \t]*\n([\s\S]*?)(?=\n### (?:FILE|ADDRESSED):|$)/gi;
   let match;
   while ((match = commentPattern.exec(response)) !== null) {
-    const [, path, lineStr, body] = match;
-    const line = parseInt(lineStr, 10);
-    if (path && !isNaN(line) && body.trim()) {
+    const [, path, startStr, endStr, sideStr, severityStr, body] = match;
+    const start = parseInt(startStr, 10);
+    const end = endStr ? parseInt(endStr, 10) : start;
+    if (path && !isNaN(start) && !isNaN(end) && body.trim()) {
+      const side = (sideStr?.toUpperCase() || 'RIGHT') as DiffSide;
+      const { text, suggestion } = extractSuggestion(body);
       result.comments.push({
         path: path.trim(),
-        line,
-        body: body.trim()
+        line: Math.max(start, end),
+        side,
+        startLine: start !== end ? Math.min(start, end) : undefined,
+        severity: severityStr?.toLowerCase() as ReviewSeverity | undefined,
+        body: text || 'Suggested change:',
+        suggestion
       });
     }
   }
 
+  // Earlier comments marked as resolved (incremental reviews)
+  const addressedPattern = /### ADDRESSED:\s*(\d+)[ \t]*\n?([\s\S]*?)(?=\n### (?:FILE|ADDRESSED):|\n## |$)/gi;
+  while ((match = addressedPattern.exec(response)) !== null) {
+    const id = parseInt(match[1], 10);
+    if (!isNaN(id)) {
+      result.addressed = [...(result.addressed || []), { id, note: match[2].trim() }];
+    }
+  }
+
   return result;
 }
 
+export interface StructuredReviewResult {
+  // Null when no usable JSON review was found
+  review: ParsedReview | null;
+  // Schema violations; invalid comments are left out of `review`
+  errors: string[];
+}
+
+const REVIEW_VERDICTS: ParsedReview['verdict'][] = ['approve', 'request_changes', 'comment'];
+// Most to least severe
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['blocker', 'major', 'minor', 'nit'];
+
 /**
- * Map a line number to the diff position for inline comments
- * GitHub requires the "position" in the diff, not the actual line number
+ * Find the JSON object in a reply: a ```json block, or the reply itself
  */
-export function findDiffPosition(
-  patch: string | undefined,
-  targetLine: number
-): number | null {
-  if (!patch) return null;
+function extractReviewJson(response: string): string | null {
+  const fenced = response.match(/```(?:json)?[ \t]*\n([\s\S]*?)\n```/i);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return fenced[1];
+  }
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start >= 0 && end > start && !response.substring(0, start).trim()) {
+    return response.substring(start, end + 1);
+  }
+  return null;
+}
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Check a review comment against the schema
+ */
+function validateReviewComment(value: unknown, at: string, errors: string[]): ReviewComment | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${at} must be an object`);
+    return null;
+  }
+  const c = value as Record<string, unknown>;
+  const before = errors.length;
+
+  if (typeof c.path !== 'string' || !c.path.trim()) errors.push(`${at}.path must be a non-empty string`);
+  if (!isPositiveInt(c.line)) errors.push(`${at}.line must be a positive integer`);
+  if (c.start_line !== undefined && !isPositiveInt(c.start_line)) errors.push(`${at}.start_line must be a positive integer`);
+  if (isPositiveInt(c.line) && isPositiveInt(c.start_line) && c.start_line > c.line) {
+    errors.push(`${at}.start_line must not be after line`);
+  }
+  if (c.side !== undefined && c.side !== 'LEFT' && c.side !== 'RIGHT') errors.push(`${at}.side must be "LEFT" or "RIGHT"`);
+  if (!REVIEW_SEVERITIES.includes(c.severity as ReviewSeverity)) {
+    errors.push(`${at}.severity must be one of ${REVIEW_SEVERITIES.join(', ')}`);
+  }
+  if (c.suggestion !== undefined && typeof c.suggestion !== 'string') errors.push(`${at}.suggestion must be a string`);
+  if (typeof c.body !== 'string' || (!c.body.trim() && c.suggestion === undefined)) {
+    errors.push(`${at}.body must be a non-empty string`);
+  }
+  if (errors.length > before) return null;
+
+  const line = c.line as number;
+  const startLine = c.start_line as number | undefined;
+  return {
+    path: (c.path as string).trim(),
+    line,
+    side: (c.side as DiffSide | undefined) || 'RIGHT',
+    startLine: startLine !== undefined && startLine !== line ? startLine : undefined,
+    severity: c.severity as ReviewSeverity,
+    body: (c.body as string).trim() || 'Suggested change:',
+    suggestion: (c.suggestion as string | undefined)?.replace(/\n$/, '')
+  };
+}
+
+/**
+ * Validate a parsed JSON value against the review schema
+ * (see getReviewInstructions)
+ */
+export function validateReviewJson(value: unknown): StructuredReviewResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { review: null, errors: ['the review must be a JSON object'] };
+  }
+  const v = value as Record<string, unknown>;
+  const errors: string[] = [];
 
-  const lines = patch.split('\n');
-  let diffPosition = 0;
-  let currentLine = 0;
+  const verdict = typeof v.verdict === 'string' ? v.verdict.toLowerCase() : v.verdict;
+  if (!REVIEW_VERDICTS.includes(verdict as ParsedReview['verdict'])) {
+    errors.push(`verdict must be one of ${REVIEW_VERDICTS.join(', ')}`);
+  }
+  if (typeof v.summary !== 'string') {
+    errors.push('summary must be a string');
+  }
+  if (errors.length > 0) {
+    return { review: null, errors };
+  }
 
-  for (const line of lines) {
-    diffPosition++;
+  const comments: ReviewComment[] = [];
+  if (v.comments !== undefined && !Array.isArray(v.comments)) {
+    errors.push('comments must be an array');
+  } else {
+    (v.comments as unknown[] | undefined || []).forEach((c, i) => {
+      const comment = validateReviewComment(c, `comments[${i}]`, errors);
+      if (comment) comments.push(comment);
+    });
+  }
 
+  const addressed: Array<{ id: number; note: string }> = [];
+  if (v.addressed !== undefined && !Array.isArray(v.addressed)) {
+    errors.push('addressed must be an array');
+  } else {
+    (v.addressed as unknown[] | undefined || []).forEach((a, i) => {
+      const entry = a as Record<string, unknown> | null;
+      if (!entry || !isPositiveInt(entry.id)) {
+        errors.push(`addressed[${i}].id must be a comment id`);
+      } else {
+        addressed.push({ id: entry.id, note: typeof entry.note === 'string' ? entry.note.trim() : '' });
+      }
+    });
+  }
+
+  return {
+    review: {
+      summary: (v.summary as string).trim(),
+      comments,
+      verdict: verdict as ParsedReview['verdict'],
+      addressed: addressed.length > 0 ? addressed : undefined
+    },
+    errors
+  };
+}
+
+/**
+ * Parse a JSON review reply. `errors` is empty only when the reply fully
+ * matches the schema.
+ */
+export function parseStructuredReview(response: string): StructuredReviewResult {
+  const json = extractReviewJson(response);
+  if (!json) {
+    return { review: null, errors: ['no JSON review object found in the reply'] };
+  }
+  try {
+    return validateReviewJson(JSON.parse(json));
+  } catch (error) {
+    return { review: null, errors: [`invalid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+}
+
+/**
+ * Follow-up message asking the agent to fix a review that failed validation
+ */
+export function buildReviewRepairPrompt(errors: string[]): string {
+  return `Your review could not be used because it does not match the required JSON format:\n\n${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}\n\nReply again with only the corrected review as a single \`\`\`json code block, following the schema from the review instructions. Keep the same findings.`;
+}
+
+/**
+ * Parse a file patch into hunks with the line numbers each side shows
+ */
+export function parsePatchHunks(patch: string | undefined): DiffHunk[] {
+  if (!patch) return [];
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
     // Parse hunk header: @@ -start,count +start,count @@
-    const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
     if (hunkMatch) {
-      currentLine = parseInt(hunkMatch[1], 10) - 1;
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[2], 10);
+      current = { left: new Set(), right: new Set() };
+      hunks.push(current);
       continue;
     }
+    if (!current || line.startsWith('\\')) continue;
 
-    // Skip removed lines (they don't exist in the new file)
     if (line.startsWith('-')) {
-      continue;
+      current.left.add(oldLine++);
+    } else if (line.startsWith('+')) {
+      current.right.add(newLine++);
+    } else {
+      // Context line: visible on both sides
+      current.left.add(oldLine++);
+      current.right.add(newLine++);
     }
+  }
 
-    // Context or added lines
-    if (line.startsWith('+') || line.startsWith(' ') || !line.startsWith('\\')) {
-      currentLine++;
-      if (currentLine === targetLine) {
-        return diffPosition;
-      }
+  return hunks;
+}
+
+/**
+ * Resolve a comment to a valid `line`/`side` anchor in the PR diff.
+ * Ranges must start and end in the same hunk; a range that doesn't is
+ * narrowed to its last line. Returns null when the line isn't in the diff.
+ */
+export function resolveCommentAnchor(
+  patch: string | undefined,
+  comment: ReviewComment
+): { line: number; side: DiffSide; start_line?: number; start_side?: DiffSide } | null {
+  const side = comment.side || 'RIGHT';
+  const hunk = parsePatchHunks(patch).find(h => (side === 'LEFT' ? h.left : h.right).has(comment.line));
+  if (!hunk) return null;
+
+  const startSide = comment.startSide || side;
+  const startLine = comment.startLine;
+  if (startLine !== undefined && startLine !== comment.line) {
+    const startInHunk = (startSide === 'LEFT' ? hunk.left : hunk.right).has(startLine);
+    const ordered = startSide !== side || startLine < comment.line;
+    if (startInHunk && ordered) {
+      return { line: comment.line, side, start_line: startLine, start_side: startSide };
     }
   }
 
-  return null;
+  return { line: comment.line, side };
+}
+
+/**
+ * Check that a suggestion's lines are all in one hunk on the new side,
+ * which GitHub needs to apply it with one click
+ */
+export function isSuggestionApplicable(patch: string | undefined, comment: ReviewComment): boolean {
+  if ((comment.side || 'RIGHT') !== 'RIGHT' || (comment.startSide || 'RIGHT') !== 'RIGHT') {
+    return false;
+  }
+  const start = comment.startLine ?? comment.line;
+  return parsePatchHunks(patch).some(h => {
+    for (let line = start; line <= comment.line; line++) {
+      if (!h.right.has(line)) return false;
+    }
+    return true;
+  });
+}
+
+const SEVERITY_BADGES: Record<ReviewSeverity, string> = {
+  blocker: '🛑 **Blocker**',
+  major: '🔴 **Major**',
+  minor: '🟡 **Minor**',
+  nit: '⚪ **Nit**',
+};
+
+/**
+ * Render a comment body, attaching its suggestion as a ```suggestion block
+ * when it can be applied, or as a plain code block when it can't
+ */
+export function renderCommentBody(patch: string | undefined, comment: ReviewComment): string {
+  const body = comment.severity ? `${SEVERITY_BADGES[comment.severity]} ${comment.body}` : comment.body;
+  if (comment.suggestion === undefined) {
+    return body;
+  }
+  // The fence must be longer than any backtick run in the suggestion
+  const longestRun = Math.max(0, ...(comment.suggestion.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  if (isSuggestionApplicable(patch, comment)) {
+    return `${body}\n\n${fence}suggestion\n${comment.suggestion}\n${fence}`;
+  }
+  return `${body}\n\nSuggested change (not attached as a one-click suggestion because the lines aren't within a single diff hunk):\n\n${fence}\n${comment.suggestion}\n${fence}`;
+}
+
+/**
+ * Format a comment's location, e.g. `src/a.ts:10-18` or `src/a.ts:L4`
+ */
+export function formatCommentLocation(comment: ReviewComment): string {
+  const prefix = comment.side === 'LEFT' ? 'L' : '';
+  const range = comment.startLine !== undefined && comment.startLine !== comment.line
+    ? `${prefix}${comment.startLine}-${comment.line}`
+    : `${prefix}${comment.line}`;
+  return `${comment.path}:${range}`;
+}
+
+/**
+ * Apply the repository's review policy: cap nits and decide the verdict
+ * actually sent to GitHub. Changes to the verdict are noted in the summary.
+ */
+export function applyReviewPolicy(review: ParsedReview, policy: ReviewPolicy = {}): ParsedReview {
+  const notes: string[] = [];
+  let comments = review.comments;
+
+  const maxNits = policy.maxNits;
+  if (maxNits !== undefined && maxNits >= 0) {
+    let nits = 0;
+    comments = comments.filter(c => c.severity !== 'nit' || ++nits <= maxNits);
+    if (nits > maxNits) {
+      notes.push(`${nits - maxNits} more nit${nits - maxNits === 1 ? '' : 's'} omitted.`);
+    }
+  }
+
+  let verdict = review.verdict;
+  if (verdict === 'approve' && policy.allowApprove === false) {
+    verdict = 'comment';
+    notes.push('This bot does not approve pull requests; a maintainer needs to approve.');
+  }
+
+  if (verdict === 'request_changes' && policy.requestChangesOn) {
+    const threshold = REVIEW_SEVERITIES.indexOf(policy.requestChangesOn);
+    if (threshold < 0) {
+      core.warning(`Unknown review.request_changes_on severity "${policy.requestChangesOn}", ignoring`);
+    } else if (!comments.some(c => c.severity && REVIEW_SEVERITIES.indexOf(c.severity) <= threshold)) {
+      verdict = 'comment';
+      notes.push(`Changes are only requested for findings of severity ${policy.requestChangesOn} or higher, so this review is posted as a comment.`);
+    }
+  }
+
+  if (verdict !== review.verdict) {
+    core.info(`Review policy changed verdict: ${review.verdict} → ${verdict}`);
+  }
+
+  return {
+    ...review,
+    summary: notes.length > 0 ? `${review.summary}\n\n_${notes.join(' ')}_` : review.summary,
+    comments,
+    verdict
+  };
 }
 
 /**
@@ -181,32 +973,35 @@ export async function postPRReview(
   repo: string,
   pullNumber: number,
   review: ParsedReview,
-  files: Array<{ filename: string; patch?: string }>
+  files: PRFile[],
+  headSha?: string
 ): Promise<void> {
-  // Build file lookup for position mapping
+  // Build file lookup for line anchoring
   const fileMap = new Map(files.map(f => [f.filename, f.patch]));
 
-  // Convert comments to GitHub format with positions
+  // Convert comments to GitHub format with line/side anchors
   const reviewComments: Array<{
     path: string;
-    position?: number;
-    line?: number;
+    line: number;
+    side: DiffSide;
+    start_line?: number;
+    start_side?: DiffSide;
     body: string;
   }> = [];
 
   for (const comment of review.comments) {
     const patch = fileMap.get(comment.path);
-    const position = findDiffPosition(patch, comment.line);
+    const anchor = resolveCommentAnchor(patch, comment);
 
-    if (position !== null) {
+    if (anchor) {
       reviewComments.push({
         path: comment.path,
-        position,
-        body: comment.body
+        ...anchor,
+        body: renderCommentBody(patch, comment)
       });
     } else {
-      // Fallback: add to summary if we can't map the position
-      review.summary += `\n\n**${comment.path}:${comment.line}**\n${comment.body}`;
+      // Fallback: add to summary if the line isn't part of the diff
+      review.summary += `\n\n**${formatCommentLocation(comment)}**\n${renderCommentBody(undefined, comment)}`;
     }
   }
 
@@ -224,8 +1019,9 @@ export async function postPRReview(
       owner,
       repo,
       pull_number: pullNumber,
-      body: `🤖 **OpenClaw Bot Review**\n\n${review.summary}`,
+      body: `🤖 **OpenClaw Bot Review**\n\n${review.summary}${headSha ? `\n\n${reviewedShaMarker(headSha)}` : ''}`,
       event,
+      commit_id: headSha,
       comments: reviewComments.length > 0 ? reviewComments : undefined
     });
 
@@ -234,6 +1030,21 @@ export async function postPRReview(
     core.error(`Failed to post PR review: ${error}`);
     throw error;
   }
+
+  // Reply to earlier comments the new changes resolved
+  for (const addressed of review.addressed || []) {
+    try {
+      await octokit.rest.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        comment_id: addressed.id,
+        body: `${ADDRESSED_PREFIX}${headSha ? ` in ${headSha.substring(0, 7)}` : ''}${addressed.note ? `: ${addressed.note}` : ''}`
+      });
+    } catch (error) {
+      core.warning(`Failed to reply to review comment ${addressed.id}: ${error}`);
+    }
+  }
 }
 
 /**
@@ -245,30 +1056,68 @@ export function getReviewInstructions(): string {
 
 You are reviewing a pull request. Analyze the diff carefully and provide a structured review.
 
-**Your response MUST follow this exact format:**
+**Your response MUST be a single JSON object in a \`\`\`json code block, in this format:**
 
+\`\`\`json
+{
+  "verdict": "comment",
+  "summary": "Your overall assessment of the PR. Be constructive and specific.",
+  "comments": [
+    {
+      "path": "path/to/file.ts",
+      "line": 42,
+      "severity": "major",
+      "body": "Specific feedback about this line. Explain the issue and suggest a fix."
+    },
+    {
+      "path": "another/file.js",
+      "start_line": 10,
+      "line": 18,
+      "severity": "blocker",
+      "body": "Feedback about a range of lines."
+    },
+    {
+      "path": "old/file.js",
+      "line": 7,
+      "side": "LEFT",
+      "severity": "nit",
+      "body": "Feedback about a removed line."
+    },
+    {
+      "path": "path/to/file.ts",
+      "start_line": 20,
+      "line": 21,
+      "severity": "minor",
+      "body": "Why the change is needed.",
+      "suggestion": "Replacement for lines 20-21, exactly as they should read"
+    }
+  ]
+}
 \`\`\`
----
-VERDICT: comment
----
-
-## Summary
 
-[Your overall assessment of the PR. Be constructive and specific.]
+**Fields:**
+- \`verdict\` (required) — \`approve\` (the PR is good to merge), \`request_changes\` (changes are required before merging) or \`comment\` (just feedback, no approval/rejection)
+- \`summary\` (required) — markdown summary of the review
+- \`comments\` — inline comments, each with:
+  - \`path\` (required) — file path as shown in the diff
+  - \`line\` (required) — line in the new version of the file; the last line for a range
+  - \`start_line\` — first line of a range; the whole range must be inside one hunk of the diff
+  - \`side\` — \`LEFT\` to comment on removed lines, using line numbers from the old version of the file (default is \`RIGHT\`)
+  - \`severity\` (required) — \`blocker\`, \`major\`, \`minor\` or \`nit\` (see below)
+  - \`body\` (required) — the comment, in markdown
+  - \`suggestion\` — replacement text for a one-click fix
+- \`addressed\` — earlier comments resolved by new changes, as \`{ "id": ..., "note": ... }\` (incremental reviews only)
+- Only lines that appear in the diff can be commented on
 
-## Comments
+**Severity:**
+- \`blocker\` — must be fixed before merging: bugs, security issues, data loss, broken builds
+- \`major\` — should be fixed: incorrect edge cases, missing error handling, risky design
+- \`minor\` — worth improving: clarity, small inefficiencies, missing tests
+- \`nit\` — optional polish: naming, style, wording
 
-### FILE: path/to/file.ts LINE: 42
-[Specific feedback about this line. Explain the issue and suggest a fix.]
-
-### FILE: another/file.js LINE: 15
-[Another inline comment...]
-\`\`\`
+Use \`request_changes\` only when there is at least one blocker or major comment.
 
-**VERDICT options:**
-- \`approve\` — The PR is good to merge
-- \`request_changes\` — Changes are required before merging
-- \`comment\` — Just providing feedback, no approval/rejection
+**Suggestions:** The \`suggestion\` replaces every line of the comment's range (new side only), so include the complete replacement with its indentation. Use suggestions only for small, self-contained fixes.
 
 **Guidelines:**
 - Focus on bugs, security issues, and significant improvements
@@ -278,6 +1127,6 @@ VERDICT: comment
 - Don't nitpick style unless it's a real problem
 - If the PR looks good, say so briefly and approve
 
-**Important:** Your inline comments (### FILE: ... LINE: ...) will be posted as GitHub review comments directly on those lines.
+**Important:** Your inline comments will be posted as GitHub review comments directly on those lines. Comments on lines outside the diff are moved into the summary. Replies that aren't valid JSON in this format are sent back to you for correction.
 `;
 }
@@ -0,0 +1,92 @@
+import * as github from '@actions/github';
+import * as core from '@actions/core';
+import { stripCommentHistory } from './comments';
+
+// Prefix of every comment the bot posts (see index.ts)
+export const BOT_COMMENT_PREFIX = '🤖 **OpenClaw Bot';
+
+export interface ThreadMessage {
+  id: number;
+  author: string;
+  fromBot: boolean;
+  body: string;
+  createdAt: string;
+}
+
+const MAX_HISTORY_COMMENTS = 30;
+const MAX_COMMENT_CHARS = 2000;
+const MAX_HISTORY_CHARS = 15000;
+
+/**
+ * Agent session key for a thread, e.g. `gh:owner/repo#123`.
+ * Events without an issue/PR share one repo-wide session.
+ */
+export function getSessionKey(repo: string, issueNumber?: number): string {
+  return issueNumber ? `gh:${repo}#${issueNumber}` : `gh:${repo}`;
+}
+
+/**
+ * Fetch the comments on an issue/PR in chronological order,
+ * including the bot's own replies
+ */
+export async function fetchThreadHistory(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  maxComments: number = MAX_HISTORY_COMMENTS
+): Promise<ThreadMessage[]> {
+  try {
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100
+    });
+
+    return comments.slice(-maxComments).map(c => ({
+      id: c.id,
+      author: c.user?.login || 'unknown',
+      fromBot: (c.body || '').startsWith(BOT_COMMENT_PREFIX),
+      // Sticky comments carry their old versions; only the current one matters
+      body: stripCommentHistory(c.body || ''),
+      createdAt: c.created_at
+    }));
+  } catch (error) {
+    core.warning(`Failed to fetch thread history: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Format thread history as a transcript for the agent, newest comments
+ * kept when the transcript is too long
+ */
+export function formatThreadHistory(messages: ThreadMessage[], maxChars: number = MAX_HISTORY_CHARS): string {
+  const entries: string[] = [];
+  let total = 0;
+
+  for (const message of [...messages].reverse()) {
+    let body = message.fromBot
+      ? message.body.substring(message.body.indexOf('\n') + 1).trim()
+      : message.body.trim();
+    if (body.length > MAX_COMMENT_CHARS) {
+      body = body.substring(0, MAX_COMMENT_CHARS) + '\n... (comment truncated)';
+    }
+
+    const speaker = message.fromBot ? 'You (OpenClaw)' : `@${message.author}`;
+    const entry = `**${speaker}** (${message.createdAt}):\n${body}`;
+    if (total + entry.length > maxChars) break;
+
+    entries.unshift(entry);
+    total += entry.length;
+  }
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const omitted = messages.length - entries.length;
+  const note = omitted > 0 ? `\n\n_(${omitted} earlier comments omitted)_` : '';
+  return `## Conversation So Far\n\nYour previous session for this thread is not available. Earlier comments from the thread:${note}\n\n${entries.join('\n\n')}`;
+}
@@ -0,0 +1,139 @@
+import * as yaml from 'js-yaml';
+import { ThreadRecord } from './workspace';
+import { PromptSection, SECTION_PRIORITY } from './prompt';
+
+export interface ThreadMemoryOptions {
+  // Keep a record per issue/PR in .openclaw/threads/
+  enabled?: boolean;
+  // Past answers kept per thread
+  maxAnswers?: number;
+  // Records of related threads shown to the agent
+  maxRelated?: number;
+}
+
+export interface ThreadMemoryUpdate {
+  summary?: string;
+  // New decisions only; they are added to the earlier ones
+  decisions?: string[];
+  status?: string;
+}
+
+const MAX_ANSWER_CHARS = 1500;
+const MAX_DECISIONS = 20;
+
+const MEMORY_BLOCK = /^[ \t]*```openclaw-memory[ \t]*\n([\s\S]*?)^[ \t]*```[ \t]*$/gm;
+
+/**
+ * Prompt section with the bot's record of this thread and short
+ * summaries of related ones
+ */
+export function buildThreadMemorySection(record: ThreadRecord | null, related: ThreadRecord[]): PromptSection | null {
+  const parts: string[] = [];
+  if (record) {
+    const lines = [`### #${record.number} (this ${record.isPR ? 'PR' : 'issue'})`];
+    if (record.status) lines.push(`Status: ${record.status}`);
+    if (record.summary) lines.push(`Summary: ${record.summary}`);
+    if (record.decisions.length > 0) {
+      lines.push(`Decisions:\n${record.decisions.map(d => `- ${d}`).join('\n')}`);
+    }
+    for (const answer of record.answers) {
+      lines.push(`Your answer on ${answer.date.split('T')[0]} (${answer.trigger}):\n> ${answer.text.replace(/\n/g, '\n> ')}`);
+    }
+    parts.push(lines.join('\n\n'));
+  }
+  for (const other of related) {
+    parts.push(`### #${other.number} ${other.title} (${other.isPR ? 'PR' : 'issue'}, ${other.state})\n\n${other.status ? `Status: ${other.status}\n\n` : ''}${other.summary || '_No summary._'}`);
+  }
+  if (parts.length === 0) return null;
+
+  return {
+    id: 'memory',
+    content: `## What You Remember\n\nYour notes from earlier runs on this thread and related ones:\n\n${parts.join('\n\n')}`,
+    priority: SECTION_PRIORITY.memory,
+    droppable: true
+  };
+}
+
+/**
+ * Instructions for updating the thread record from the reply
+ */
+export function buildMemoryUpdateSection(threadNumber: number): PromptSection {
+  return {
+    id: 'memory-update',
+    content: `## Thread Memory
+
+End your reply with a fenced \`openclaw-memory\` block updating your notes on #${threadNumber}:
+
+\`\`\`\`
+\`\`\`openclaw-memory
+{"summary": "Two or three sentences on what the thread is about and where it stands.", "decisions": ["New decisions or agreements from this run, if any"], "status": "waiting for a reproduction"}
+\`\`\`
+\`\`\`\`
+
+The block is removed from your reply. Leave out fields that haven't changed.`,
+    priority: SECTION_PRIORITY.instructions,
+    minTokens: 150
+  };
+}
+
+/**
+ * Pull the `openclaw-memory` block out of an agent response. The last
+ * valid block wins; invalid ones are dropped.
+ */
+export function parseMemoryUpdate(response: string): { text: string; update: ThreadMemoryUpdate | null } {
+  let update: ThreadMemoryUpdate | null = null;
+  for (const match of response.matchAll(MEMORY_BLOCK)) {
+    let data: any;
+    try {
+      data = yaml.load(match[1]);
+    } catch {
+      continue;
+    }
+    if (!data || typeof data !== 'object') continue;
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    update = {
+      summary: text(data.summary),
+      status: text(data.status),
+      decisions: Array.isArray(data.decisions) ? data.decisions.map(text).filter((d: string | undefined): d is string => !!d) : undefined,
+    };
+  }
+  return { text: response.replace(MEMORY_BLOCK, '').trim(), update };
+}
+
+/**
+ * The thread's record after this run: the agent's update applied and the
+ * answer appended, keeping the last `maxAnswers` answers
+ */
+export function updateThreadRecord(
+  record: ThreadRecord | null,
+  thread: { number: number; isPR: boolean; title: string; state: string },
+  update: ThreadMemoryUpdate | null,
+  answer: { trigger: string; text: string } | null,
+  related: number[],
+  options: ThreadMemoryOptions = {}
+): ThreadRecord {
+  const now = new Date().toISOString();
+  const decisions = [...(record?.decisions || [])];
+  for (const decision of update?.decisions || []) {
+    if (!decisions.includes(decision)) decisions.push(decision);
+  }
+  const answers = [...(record?.answers || [])];
+  if (answer && answer.text.trim()) {
+    const text = answer.text.trim();
+    answers.push({
+      date: now,
+      trigger: answer.trigger,
+      text: text.length > MAX_ANSWER_CHARS ? `${text.substring(0, MAX_ANSWER_CHARS)}…` : text
+    });
+  }
+
+  return {
+    ...thread,
+    status: update?.status ?? record?.status ?? '',
+    summary: update?.summary ?? record?.summary ?? '',
+    decisions: decisions.slice(-MAX_DECISIONS),
+    answers: answers.slice(-(options.maxAnswers ?? 5)),
+    related: [...new Set([...(record?.related || []), ...related])].filter(n => n !== thread.number),
+    updatedAt: now
+  };
+}
@@ -0,0 +1,155 @@
+import * as core from '@actions/core';
+import { PromptSection, requestSection } from './prompt';
+
+export interface TriageOptions {
+  // Triage new issues instead of answering them
+  enabled?: boolean;
+  // Extra classification rules for the agent, e.g. "Crashes are priority:high"
+  rules?: string[];
+  // Label added when reproduction info is missing (only if it exists)
+  needsInfoLabel?: string;
+  // Ask the author for the missing info in a comment
+  needsInfoComment?: boolean;
+  // Markdown for that comment; {author} and {missing} are filled in
+  needsInfoTemplate?: string;
+}
+
+export interface TriageResult {
+  type: string | null;
+  areas: string[];
+  priority: string | null;
+  // What the author should add before the issue can be acted on
+  missingInfo: string[];
+  summary: string;
+  // Existing labels to apply, matched to the repository's spelling
+  labels: string[];
+  // Labels the agent named that don't exist, never applied
+  unknownLabels: string[];
+}
+
+export const DEFAULT_NEEDS_INFO_TEMPLATE = `Thanks for the report, @{author}! To look into this, we need a bit more information:
+
+{missing}
+
+Please edit the issue or add a comment with these details.`;
+
+/**
+ * Prompt asking the agent to classify a new issue with the repository's
+ * own labels
+ */
+export function buildTriageSections(
+  issue: { number: number; title: string; body?: string | null; html_url?: string; author: string },
+  labels: Array<{ name: string; description: string | null }>,
+  options: TriageOptions = {}
+): PromptSection[] {
+  const labelList = labels
+    .map(l => `- ${l.name}${l.description ? `: ${l.description}` : ''}`)
+    .join('\n');
+  const rules = (options.rules || []).filter(Boolean);
+  const rulesSection = rules.length > 0 ? `\n\n## Triage Rules\n\n${rules.map(r => `- ${r}`).join('\n')}` : '';
+
+  return [requestSection(`Issue #${issue.number} opened by @${issue.author}: ${issue.title}
+
+${issue.body || '(no description)'}
+
+URL: ${issue.html_url}
+
+---
+
+Triage this issue using only the repository's labels below.
+
+## Available Labels
+
+${labelList}${rulesSection}
+
+## Reply Format
+
+Reply with a single JSON object in a \`\`\`json block:
+
+\`\`\`json
+{"type": "bug", "area": ["area: cli"], "priority": "priority: low", "missing_info": ["steps to reproduce"], "summary": "One sentence."}
+\`\`\`
+
+- \`type\`: the label for the kind of issue (bug, feature, question, ...), or null
+- \`area\`: labels for the parts of the project it touches, or []
+- \`priority\`: the priority label, or null
+- \`missing_info\`: what a maintainer still needs to reproduce or act on it (steps, versions, logs, expected vs. actual behavior), or [] when the report is complete
+- \`summary\`: one sentence describing the issue
+
+Use label names exactly as listed. Never invent labels; use null or [] when nothing fits.`)];
+}
+
+/**
+ * The JSON object in an agent reply: a ```json block, or the whole reply
+ */
+function extractTriageJson(response: string): any {
+  const fenced = response.match(/```(?:json)?[ \t]*\n([\s\S]*?)\n[ \t]*```/);
+  const text = fenced ? fenced[1] : response.trim();
+  if (!text.startsWith('{')) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the agent's classification. Labels are matched case-insensitively
+ * against the repository's labels; anything else is dropped, never created.
+ * Returns null when the reply has no usable JSON.
+ */
+export function parseTriageResponse(response: string, availableLabels: string[]): TriageResult | null {
+  const data = extractTriageJson(response);
+  if (!data || typeof data !== 'object') return null;
+
+  const byName = new Map(availableLabels.map(l => [l.toLowerCase(), l]));
+  const unknownLabels: string[] = [];
+  const resolve = (value: unknown): string | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const label = byName.get(value.trim().toLowerCase());
+    if (!label) unknownLabels.push(value.trim());
+    return label ?? null;
+  };
+  const list = (value: unknown) => (Array.isArray(value) ? value : value ? [value] : []);
+
+  const type = resolve(data.type);
+  const areas = list(data.area).map(resolve).filter((l): l is string => !!l);
+  const priority = resolve(data.priority);
+  const missingInfo = list(data.missing_info).filter((m): m is string => typeof m === 'string' && m.trim() !== '');
+
+  return {
+    type,
+    areas,
+    priority,
+    missingInfo,
+    summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+    labels: [...new Set([type, ...areas, priority].filter((l): l is string => !!l))],
+    unknownLabels,
+  };
+}
+
+/**
+ * Labels to apply for a triage result, including the needs-info label
+ * when information is missing and the label exists
+ */
+export function getTriageLabels(result: TriageResult, availableLabels: string[], options: TriageOptions = {}): string[] {
+  const labels = [...result.labels];
+  if (result.missingInfo.length > 0 && options.needsInfoLabel) {
+    const needsInfo = availableLabels.find(l => l.toLowerCase() === options.needsInfoLabel!.toLowerCase());
+    if (needsInfo && !labels.includes(needsInfo)) {
+      labels.push(needsInfo);
+    } else if (!needsInfo) {
+      core.warning(`Needs-info label "${options.needsInfoLabel}" does not exist in the repository`);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Comment asking the issue author for the missing information
+ */
+export function formatNeedsInfoComment(missingInfo: string[], author: string, template: string = DEFAULT_NEEDS_INFO_TEMPLATE): string {
+  return template
+    .replace(/\{author\}/g, author)
+    .replace(/\{missing\}/g, missingInfo.map(m => `- ${m}`).join('\n'));
+}
@@ -1,48 +1,164 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
-import { getFormattedContext } from './context';
-import { fetchPRDiff, fetchPRFiles, getReviewInstructions } from './review';
+import { getContextSections, loadConfig, buildThreadContext, formatThreadContextForPrompt } from './context';
+import { BotReviewComment, buildReviewSections, PRFile, PullRequestInfo, ReviewOptions } from './review';
+import { CodeOwnersArea } from './codeowners';
+import { parseCommand, getCommand, formatHelp, fetchRepoLabels, CommandPrompt, PostingStrategy, DEFAULT_COMMAND_PREFIX } from './commands';
+import { PromptSection, SECTION_PRIORITY, requestSection } from './prompt';
+import { buildFixSections, canStartFix } from './fix';
+import { buildTriageSections } from './triage';
 
 export interface TriggerContext {
-  type: 'heartbeat' | 'issue_comment' | 'issue_created' | 'pull_request' | 'manual';
-  message: string;
-  repoContext?: string;
+  type: 'heartbeat' | 'issue_comment' | 'issue_created' | 'issue_labeled' | 'pull_request' | 'manual';
+  // Repo and thread context
+  contextSections: PromptSection[];
+  // The event itself: request, instructions, diff
+  eventSections: PromptSection[];
+  // Comments already shown to the agent in the thread context
+  threadCommentIds?: number[];
+  // Issues/PRs the thread links to
+  relatedNumbers?: number[];
   issueNumber?: number;
   isPR?: boolean;
+  // Set when the event should not be answered at all
+  skip?: string;
+  // Posted as-is without running the agent (help, unknown commands)
+  reply?: string;
+  // Slash command that produced this trigger, if any
+  command?: string;
+  posting?: PostingStrategy;
   // PR review specific
-  prFiles?: Array<{ filename: string; patch?: string; status: string }>;
+  prFiles?: PRFile[];
+  // Files whose changes are in the prompt (only new ones when incremental)
+  reviewFiles?: PRFile[];
+  headSha?: string;
+  // CODEOWNERS areas the reviewed files belong to
+  codeOwners?: CodeOwnersArea[];
+  // Earlier bot findings not yet marked addressed (incremental reviews)
+  earlierFindings?: BotReviewComment[];
+  // Labels the agent may choose from (label command, triage)
+  availableLabels?: string[];
+  // Title of the issue being fixed (fix command or label)
+  issueTitle?: string;
 }
 
 /**
- * Parse the GitHub event trigger into a message for OpenClaw
+ * Parse the GitHub event trigger into prompt sections for OpenClaw
  */
 export async function parseTrigger(githubToken: string): Promise<TriggerContext> {
   const context = github.context;
   const octokit = github.getOctokit(githubToken);
   
+  const config = loadConfig();
+  
   core.info(`Event: ${context.eventName}, Action: ${context.payload.action}`);
 
+  const reviewOptions: ReviewOptions = {
+    rules: config.review?.rules,
+    ignore: config.review?.ignore,
+    codeowners: config.review?.codeowners
+  };
+  const fixOptions = config.fix || {};
+
+  // Only the fix label starts a run on a labeled issue, and only when
+  // whoever added it may push fixes
+  if (context.eventName === 'issues' && context.payload.action === 'labeled') {
+    const base = { type: 'issue_labeled' as const, contextSections: [], eventSections: [], issueNumber: context.payload.issue?.number };
+    if (context.payload.label?.name !== config.fix?.label) {
+      return { ...base, skip: `label "${context.payload.label?.name}" is not the fix label` };
+    }
+    const sender = context.payload.sender?.login;
+    if (!sender || !(await canStartFix(octokit, context.repo.owner, context.repo.repo, sender, config.fix?.minPermission))) {
+      return { ...base, skip: `@${sender} lacks ${config.fix?.minPermission || 'write'} permission for fixes` };
+    }
+  }
+
+  // Slash commands are resolved before building context, so ignored
+  // comments and direct replies don't cost any extra API calls
+  let commandPrompt: (CommandPrompt & { command: string; posting: PostingStrategy }) | null = null;
+  if (context.eventName === 'issue_comment' && context.payload.action === 'created') {
+    const comment = context.payload.comment!;
+    const issue = context.payload.issue!;
+    const commandsConfig = config.commands || {};
+    const prefix = commandsConfig.prefix || DEFAULT_COMMAND_PREFIX;
+    const parsed = parseCommand(comment.body || '', prefix);
+    const base = { type: 'issue_comment' as const, contextSections: [], eventSections: [], issueNumber: issue.number, isPR: !!issue.pull_request };
+
+    if (!parsed && commandsConfig.noCommand === 'ignore') {
+      return { ...base, skip: 'comment contains no command' };
+    }
+
+    if (parsed) {
+      core.info(`Command: ${parsed.name}${parsed.args ? ` ${parsed.args}` : ''}`);
+      const definition = getCommand(parsed.name);
+      if (!definition) {
+        return { ...base, command: parsed.name, reply: `Unknown command \`${parsed.name}\`.\n\n${formatHelp(prefix)}` };
+      }
+      if (definition.posting === 'fix' && !(await canStartFix(octokit, context.repo.owner, context.repo.repo, comment.user.login, config.fix?.minPermission))) {
+        return { ...base, command: parsed.name, reply: `Only users with ${config.fix?.minPermission || 'write'} access to this repository can start a fix.` };
+      }
+
+      const outcome = await definition.run({
+        octokit,
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        prefix,
+        args: parsed.args,
+        author: comment.user.login,
+        reviewOptions,
+        fixOptions,
+        issue: {
+          number: issue.number,
+          title: issue.title,
+          body: issue.body,
+          html_url: issue.html_url,
+          isPR: !!issue.pull_request
+        }
+      });
+      if ('reply' in outcome) {
+        return { ...base, command: parsed.name, reply: outcome.reply };
+      }
+      commandPrompt = { command: parsed.name, posting: definition.posting, ...outcome };
+    }
+  }
+
   // Build repo context (README, commits, issues, config)
   core.info('Building repository context...');
-  let repoContext = '';
+  const contextSections: PromptSection[] = [];
   try {
-    repoContext = await getFormattedContext(githubToken);
-    if (repoContext) {
-      core.info(`Context built: ${repoContext.length} chars`);
+    contextSections.push(...await getContextSections(githubToken));
+    if (contextSections.length > 0) {
+      core.info(`Context built: ${contextSections.map(s => s.id).join(', ')}`);
     }
   } catch (error) {
     core.warning(`Failed to build repo context: ${error}`);
   }
+
+  // Thread context (description, discussion, linked issues) for issue/PR events
+  const threadNumber: number | undefined = context.payload.issue?.number ?? context.payload.pull_request?.number;
+  let threadCommentIds: number[] = [];
+  let relatedNumbers: number[] = [];
+  if (threadNumber && context.eventName !== 'schedule') {
+    try {
+      const thread = await buildThreadContext(githubToken, threadNumber, context.payload.comment?.id);
+      if (thread) {
+        const threadContext = formatThreadContextForPrompt(thread, config.thread?.maxChars);
+        contextSections.push({ id: 'thread', content: threadContext, priority: SECTION_PRIORITY.thread, minTokens: 1000 });
+        threadCommentIds = thread.comments.map(c => c.id);
+        relatedNumbers = thread.linked.map(l => l.number);
+        core.info(`Thread context built: ${threadContext.length} chars, ${thread.comments.length} comments`);
+      }
+    } catch (error) {
+      core.warning(`Failed to build thread context: ${error}`);
+    }
+  }
   
   // Schedule (heartbeat)
   if (context.eventName === 'schedule') {
-    const message = repoContext
-      ? `${repoContext}\n\n---\n\nHeartbeat check. Review the repo, look for issues to work on, update memory.`
-      : 'Heartbeat check. Review the repo, look for issues to work on, update memory.';
     return {
       type: 'heartbeat',
-      message,
-      repoContext
+      contextSections,
+      eventSections: [requestSection('Heartbeat check. Review the repo, look for issues to work on, update memory.')]
     };
   }
   
@@ -50,14 +166,35 @@ export async function parseTrigger(githubToken: string): Promise<TriggerContext>
   if (context.eventName === 'issue_comment' && context.payload.action === 'created') {
     const comment = context.payload.comment!;
     const issue = context.payload.issue!;
+
+    if (commandPrompt) {
+      return {
+        type: 'issue_comment',
+        contextSections,
+        eventSections: commandPrompt.sections,
+        threadCommentIds,
+        relatedNumbers,
+        issueNumber: issue.number,
+        isPR: !!issue.pull_request,
+        command: commandPrompt.command,
+        posting: commandPrompt.posting,
+        prFiles: commandPrompt.prFiles,
+        reviewFiles: commandPrompt.reviewFiles,
+        headSha: commandPrompt.headSha,
+        codeOwners: commandPrompt.codeOwners,
+        availableLabels: commandPrompt.availableLabels,
+        issueTitle: commandPrompt.issueTitle
+      };
+    }
     
     const eventMessage = `New comment on ${issue.pull_request ? 'PR' : 'issue'} #${issue.number} by @${comment.user.login}:\n\n${comment.body}\n\n---\n\nIssue title: ${issue.title}\nIssue URL: ${issue.html_url}`;
-    const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
     
     return {
       type: 'issue_comment',
-      message,
-      repoContext,
+      contextSections,
+      eventSections: [requestSection(eventMessage)],
+      threadCommentIds,
+      relatedNumbers,
       issueNumber: issue.number,
       isPR: !!issue.pull_request
     };
@@ -68,52 +205,93 @@ export async function parseTrigger(githubToken: string): Promise<TriggerContext>
     const issue = context.payload.issue!;
     const action = context.payload.action;
     
+    // With triage enabled, new issues are classified with the repo's labels
+    if (action === 'opened' && config.triage?.enabled) {
+      const labels = await fetchRepoLabels(octokit, context.repo.owner, context.repo.repo);
+      if (labels.length > 0) {
+        return {
+          type: 'issue_created',
+          contextSections,
+          eventSections: buildTriageSections(
+            { number: issue.number, title: issue.title, body: issue.body, html_url: issue.html_url, author: issue.user.login },
+            labels,
+            config.triage
+          ),
+          threadCommentIds,
+          relatedNumbers,
+          issueNumber: issue.number,
+          isPR: false,
+          posting: 'triage',
+          availableLabels: labels.map(l => l.name)
+        };
+      }
+      core.warning('Triage is enabled but the repository has no labels; answering the issue instead');
+    }
+    
     const eventMessage = `Issue #${issue.number} ${action} by @${issue.user.login}: ${issue.title}\n\n${issue.body || '(no description)'}\n\n---\n\nIssue URL: ${issue.html_url}`;
-    const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
     
     return {
       type: 'issue_created',
-      message,
-      repoContext,
+      contextSections,
+      eventSections: [requestSection(eventMessage)],
+      threadCommentIds,
+      relatedNumbers,
       issueNumber: issue.number,
       isPR: false
     };
   }
   
+  // Fix label added to an issue
+  if (context.eventName === 'issues' && context.payload.action === 'labeled') {
+    const issue = context.payload.issue!;
+    return {
+      type: 'issue_labeled',
+      contextSections,
+      eventSections: buildFixSections(
+        { number: issue.number, title: issue.title, body: issue.body, html_url: issue.html_url },
+        context.payload.sender!.login,
+        process.cwd(),
+        fixOptions
+      ),
+      threadCommentIds,
+      relatedNumbers,
+      issueNumber: issue.number,
+      isPR: false,
+      command: 'fix',
+      posting: 'fix',
+      issueTitle: issue.title
+    };
+  }
+  
   // Pull request
   if (context.eventName === 'pull_request' && 
       (context.payload.action === 'opened' || context.payload.action === 'synchronize' || context.payload.action === 'reopened')) {
     const pr = context.payload.pull_request!;
     const { owner, repo } = context.repo;
     
-    // Fetch full diff for review
-    core.info('Fetching PR diff for review...');
-    const diff = await fetchPRDiff(octokit, owner, repo, pr.number);
-    const prFiles = await fetchPRFiles(octokit, owner, repo, pr.number);
-    
-    core.info(`Fetched diff: ${diff.length} chars, ${prFiles.length} files`);
-    
-    // Build file summary
-    const filesSummary = prFiles.length > 0 
-      ? `\n\nFiles changed (${prFiles.length}):\n${prFiles.slice(0, 20).map(f => `- ${f.status}: ${f.filename}`).join('\n')}${prFiles.length > 20 ? `\n... and ${prFiles.length - 20} more files` : ''}`
-      : '';
-    
-    // Build the review prompt with diff
-    const reviewInstructions = getReviewInstructions();
-    const prInfo = `PR #${pr.number} by @${pr.user.login}: ${pr.title}\n\n${pr.body || '(no description)'}${filesSummary}\n\nPR URL: ${pr.html_url}\nBranch: ${pr.head.ref} → ${pr.base.ref}`;
-    
-    const diffSection = diff ? `\n\n## Diff\n\n\`\`\`diff\n${diff}\n\`\`\`` : '';
-    
-    const eventMessage = `${reviewInstructions}\n\n---\n\n## Pull Request\n\n${prInfo}${diffSection}`;
-    const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
+    // Pushes to an already reviewed PR only get the new changes reviewed
+    const incremental = context.payload.action === 'synchronize' && config.review?.incremental !== false
+      ? { botLogin: config.triggers?.botLogin || 'github-actions[bot]' }
+      : undefined;
+    const { sections: eventSections, prFiles, reviewFiles, headSha, codeOwners, earlierFindings, skip } = await buildReviewSections(octokit, owner, repo, pr as PullRequestInfo, { ...reviewOptions, incremental });
+    if (skip) {
+      return { type: 'pull_request', contextSections: [], eventSections: [], issueNumber: pr.number, isPR: true, skip };
+    }
     
     return {
       type: 'pull_request',
-      message,
-      repoContext,
+      contextSections,
+      eventSections,
+      threadCommentIds,
+      relatedNumbers,
       issueNumber: pr.number,
       isPR: true,
-      prFiles
+      posting: 'review',
+      prFiles,
+      reviewFiles,
+      headSha,
+      codeOwners,
+      earlierFindings
     };
   }
   
@@ -123,12 +301,13 @@ export async function parseTrigger(githubToken: string): Promise<TriggerContext>
     const pr = context.payload.pull_request!;
     
     const eventMessage = `New review comment on PR #${pr.number} by @${comment.user.login}:\n\n${comment.body}\n\nFile: ${comment.path}${comment.line ? ` (line ${comment.line})` : ''}\n\n---\n\nPR title: ${pr.title}\nPR URL: ${pr.html_url}`;
-    const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
     
     return {
       type: 'issue_comment',
-      message,
-      repoContext,
+      contextSections,
+      eventSections: [requestSection(eventMessage)],
+      threadCommentIds,
+      relatedNumbers,
       issueNumber: pr.number,
       isPR: true
     };
@@ -137,20 +316,18 @@ export async function parseTrigger(githubToken: string): Promise<TriggerContext>
   // Manual trigger
   if (context.eventName === 'workflow_dispatch') {
     const eventMessage = 'Manual trigger. Check for anything that needs attention.';
-    const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
     return {
       type: 'manual',
-      message,
-      repoContext
+      contextSections,
+      eventSections: [requestSection(eventMessage)]
     };
   }
   
   // Unknown trigger
   const eventMessage = `Unknown trigger: ${context.eventName}. Please investigate.`;
-  const message = repoContext ? `${repoContext}\n\n---\n\n${eventMessage}` : eventMessage;
   return {
     type: 'manual',
-    message,
-    repoContext
+    contextSections,
+    eventSections: [requestSection(eventMessage)]
   };
 }
@@ -2,12 +2,34 @@ import * as core from '@actions/core';
 import * as cache from '@actions/cache';
 import * as fs from 'fs';
 import * as path from 'path';
+import { mergeIssueIndex } from './duplicates';
 
 export interface Workspace {
   path: string;
   soul?: string;
   memory?: string;
   dailyLogs: Map<string, string>;
+  // Cache entry the workspace was restored from
+  cacheKey?: string;
+}
+
+/**
+ * Keys for the workspace cache. Each run saves under its own key, which
+ * never exists yet when restoring, so the restore keys always pick the
+ * newest save for the branch, then for the repository. Git refs can't
+ * contain `:`, so `main:` never matches a `main-v2` branch.
+ */
+function getCacheKeys(repo: string): { cacheKey: string; branchPrefix: string; restoreKeys: string[] } {
+  const branch = process.env.GITHUB_REF_NAME || 'main';
+  const runId = `${process.env.GITHUB_RUN_ID || Date.now()}-${process.env.GITHUB_RUN_ATTEMPT || '1'}`;
+  const repoPrefix = `openclaw-workspace-v2-${repo}:`;
+  const branchPrefix = `${repoPrefix}${branch}:`;
+  return {
+    cacheKey: `${branchPrefix}${runId}`,
+    branchPrefix,
+    // The last key picks up the single per-branch entry of older versions
+    restoreKeys: [branchPrefix, repoPrefix, `openclaw-workspace-${repo}-${branch}`]
+  };
 }
 
 /**
@@ -21,14 +43,11 @@ export async function restoreWorkspace(workspacePath: string, repo: string): Pro
     fs.mkdirSync(workspacePath, { recursive: true });
   }
   
-  const branch = process.env.GITHUB_REF_NAME || 'main';
-  const cacheKey = `openclaw-workspace-${repo}-${branch}`;
-  const restoreKeys = [
-    `openclaw-workspace-${repo}-`
-  ];
+  const { cacheKey, restoreKeys } = getCacheKeys(repo);
+  let cacheHit: string | undefined;
   
   try {
-    const cacheHit = await cache.restoreCache([workspacePath], cacheKey, restoreKeys);
+    cacheHit = await cache.restoreCache([workspacePath], cacheKey, restoreKeys);
     if (cacheHit) {
       core.info(`Cache restored from key: ${cacheHit}`);
     } else {
@@ -40,7 +59,7 @@ export async function restoreWorkspace(workspacePath: string, repo: string): Pro
     initializeWorkspace(workspacePath);
   }
   
-  return loadWorkspace(workspacePath);
+  return { ...loadWorkspace(workspacePath), cacheKey: cacheHit };
 }
 
 /**
@@ -136,14 +155,46 @@ function loadWorkspace(workspacePath: string): Workspace {
   return workspace;
 }
 
+/**
+ * Fold in the workspace another run saved after this one restored
+ * `restoredKey`: its thread records and issue index entries. Other files
+ * (MEMORY.md, daily logs) keep this run's version.
+ */
+async function mergeNewerWorkspace(workspacePath: string, repo: string, restoredKey?: string): Promise<void> {
+  const { cacheKey, branchPrefix } = getCacheKeys(repo);
+  const latest = await cache.restoreCache([workspacePath], cacheKey, [branchPrefix], { lookupOnly: true });
+  if (!latest || latest === restoredKey) return;
+
+  core.info(`Merging workspace saved by another run: ${latest}`);
+  // The cache restores to the path it was saved from, so move ours aside
+  const ownPath = `${workspacePath}.run`;
+  fs.rmSync(ownPath, { recursive: true, force: true });
+  fs.renameSync(workspacePath, ownPath);
+  try {
+    if (await cache.restoreCache([workspacePath], latest)) {
+      mergeThreadRecords(workspacePath, ownPath);
+      mergeIssueIndex(workspacePath, ownPath);
+    }
+  } finally {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+    fs.renameSync(ownPath, workspacePath);
+  }
+}
+
 /**
  * Save workspace back to cache
  */
-export async function saveWorkspace(workspacePath: string, repo: string): Promise<void> {
+export async function saveWorkspace(workspacePath: string, repo: string, restoredKey?: string): Promise<void> {
   core.info(`Saving workspace to cache...`);
   
-  const branch = process.env.GITHUB_REF_NAME || 'main';
-  const cacheKey = `openclaw-workspace-${repo}-${branch}`;
+  try {
+    await mergeNewerWorkspace(workspacePath, repo, restoredKey);
+  } catch (error) {
+    core.warning(`Failed to merge newer workspace, saving this run's only: ${error}`);
+  }
+
+  // Cache entries can't be overwritten, so every run gets its own key
+  const { cacheKey } = getCacheKeys(repo);
   
   try {
     await cache.saveCache([workspacePath], cacheKey);
@@ -178,3 +229,63 @@ export function updateMemory(workspacePath: string, content: string): void {
   const memoryPath = path.join(workspacePath, 'MEMORY.md');
   fs.appendFileSync(memoryPath, `\n${content}\n`);
 }
+
+/**
+ * What the bot knows about one issue or PR, kept in threads/<n>.json
+ */
+export interface ThreadRecord {
+  number: number;
+  isPR: boolean;
+  title: string;
+  // GitHub state: open, closed or merged
+  state: string;
+  // Where the thread stands, in the agent's words
+  status: string;
+  summary: string;
+  decisions: string[];
+  // The bot's past answers, oldest first
+  answers: Array<{ date: string; trigger: string; text: string }>;
+  // Linked issues/PRs and possible duplicates
+  related: number[];
+  updatedAt: string;
+}
+
+/**
+ * Read the record for an issue/PR, or null if the bot has none
+ */
+export function loadThreadRecord(workspacePath: string, threadNumber: number): ThreadRecord | null {
+  const recordPath = path.join(workspacePath, 'threads', `${threadNumber}.json`);
+  if (!fs.existsSync(recordPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(recordPath, 'utf-8')) as ThreadRecord;
+  } catch (error) {
+    core.warning(`Failed to read thread record #${threadNumber}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Write the record for an issue/PR
+ */
+export function saveThreadRecord(workspacePath: string, record: ThreadRecord): void {
+  const threadsDir = path.join(workspacePath, 'threads');
+  if (!fs.existsSync(threadsDir)) {
+    fs.mkdirSync(threadsDir, { recursive: true });
+  }
+  fs.writeFileSync(path.join(threadsDir, `${record.number}.json`), JSON.stringify(record, null, 2));
+}
+
+/**
+ * Copy thread records from another workspace where they are newer
+ */
+function mergeThreadRecords(fromPath: string, intoPath: string): void {
+  const threadsDir = path.join(fromPath, 'threads');
+  if (!fs.existsSync(threadsDir)) return;
+  for (const file of fs.readdirSync(threadsDir).filter(f => /^\d+\.json$/.test(f))) {
+    const theirs = loadThreadRecord(fromPath, parseInt(file, 10));
+    const ours = loadThreadRecord(intoPath, parseInt(file, 10));
+    if (theirs && (!ours || theirs.updatedAt > ours.updatedAt)) {
+      saveThreadRecord(intoPath, theirs);
+    }
+  }
+}